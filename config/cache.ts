@@ -0,0 +1,15 @@
+// Cache windows per market data resource, in seconds: fresh for ttlSeconds,
+// then served stale (while refreshed in the background) for staleSeconds more
+export const CACHE_POLICIES = {
+  search: { ttlSeconds: 60, staleSeconds: 300 },
+  details: { ttlSeconds: 120, staleSeconds: 600 },
+  quotes: { ttlSeconds: 30, staleSeconds: 120 },
+  priceHistory: { ttlSeconds: 600, staleSeconds: 3600 },
+  ohlcv: { ttlSeconds: 60, staleSeconds: 300 },
+  risk: { ttlSeconds: 120, staleSeconds: 600 },
+  // Also refreshed on a schedule, so requests rarely wait for a rebuild
+  marketOverview: { ttlSeconds: 300, staleSeconds: 1800 },
+  // Reference rates are published once per working day
+  fiatRates: { ttlSeconds: 3600, staleSeconds: 86400 },
+  cryptoRates: { ttlSeconds: 60, staleSeconds: 300 },
+};
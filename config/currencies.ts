@@ -0,0 +1,20 @@
+// Currencies prices can be quoted in, as lowercase codes
+export const CURRENCIES = ['usd', 'eur', 'gbp', 'inr', 'btc', 'eth'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+// Fiat currencies, converted from USD with exchange rates
+export const FIAT_CURRENCIES: Currency[] = ['usd', 'eur', 'gbp', 'inr'];
+
+// Crypto currencies, with the coin whose price sets their rate
+export const CRYPTO_CURRENCY_COINS: Partial<Record<Currency, string>> = {
+  btc: 'bitcoin',
+  eth: 'ethereum',
+};
+
+/**
+ * Whether a value is a supported (lowercase) currency code
+ * @param value Value to check
+ */
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
@@ -0,0 +1,51 @@
+// Permissions checked by the authorize() middleware
+export const PERMISSIONS = {
+  // Regular app features
+  WALLET_READ: 'wallet:read',
+  MARKET_READ: 'market:read',
+  AI_USE: 'ai:use',
+
+  // Administration
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  SYSTEM_READ: 'system:read',
+  AUDIT_READ: 'audit:read',
+  AI_ADMIN: 'ai:admin',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ROLES = ['user', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+// Permissions granted by each role
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: [
+    PERMISSIONS.WALLET_READ,
+    PERMISSIONS.MARKET_READ,
+    PERMISSIONS.AI_USE,
+  ],
+  admin: Object.values(PERMISSIONS),
+};
+
+/**
+ * Resolve the effective permissions of a user
+ * @param role User role
+ * @param extraPermissions Permissions granted individually on top of the role
+ * @returns Deduplicated list of permissions
+ */
+export const resolvePermissions = (role: string, extraPermissions: string[] = []): Permission[] => {
+  const rolePermissions = ROLE_PERMISSIONS[role as Role] || ROLE_PERMISSIONS.user;
+  const validExtras = extraPermissions.filter(
+    (permission): permission is Permission => (Object.values(PERMISSIONS) as string[]).includes(permission)
+  );
+  return Array.from(new Set([...rolePermissions, ...validExtras]));
+};
+
+// Scopes that can be granted to personal API keys (never administrative ones)
+export const API_KEY_SCOPES: Permission[] = [
+  PERMISSIONS.WALLET_READ,
+  PERMISSIONS.MARKET_READ,
+  PERMISSIONS.AI_USE,
+];
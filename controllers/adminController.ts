@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { userController } from './userController';
+import { sessionService } from '../services/sessionService';
+import { marketDataService } from '../services/marketDataService';
+
+// Human readable names for mongoose.connection.readyState
+const DB_STATES: Record<number, string> = {
+  0: 'disconnected',
+  1: 'connected',
+  2: 'connecting',
+  3: 'disconnecting'
+};
+
+/**
+ * Controller for administrative operations
+ */
+export const adminController = {
+  /**
+   * Get an overview of the running system
+   * @returns Process, database and account statistics
+   */
+  getSystemStatus: async () => {
+    try {
+      const readyState = mongoose.connection.readyState as number;
+      const isMongoConnected = readyState === 1;
+      const memory = process.memoryUsage();
+
+      const [users, activeSessions] = isMongoConnected
+        ? await Promise.all([userController.countUsers(), sessionService.countActiveSessions()])
+        : [null, null];
+
+      return {
+        success: true,
+        data: {
+          uptimeSeconds: Math.round(process.uptime()),
+          nodeVersion: process.version,
+          environment: process.env.NODE_ENV || 'development',
+          memory: {
+            rssMb: Math.round(memory.rss / 1024 / 1024),
+            heapUsedMb: Math.round(memory.heapUsed / 1024 / 1024)
+          },
+          database: {
+            connected: isMongoConnected,
+            status: DB_STATES[readyState] || 'unknown'
+          },
+          users,
+          activeSessions,
+          marketDataProviders: marketDataService.getProviderStatus(),
+          // Only report whether third-party keys are configured, never the keys themselves
+          integrations: {
+            alchemy: !!process.env.ALCHEMY_API_KEY,
+            etherscan: !!process.env.ETHERSCAN_API_KEY,
+            helius: !!process.env.HELIUS_API_KEY,
+            coingecko: !!process.env.COINGECKO_API_KEY,
+            coinpaprika: !!process.env.COINPAPRIKA_API_KEY,
+            gnews: !!process.env.GNEWS_API_KEY,
+            together: !!process.env.TOGETHER_API_KEY
+          }
+        }
+      };
+    } catch (error) {
+      console.error('Error getting system status:', error);
+      return {
+        success: false,
+        error: 'Failed to get system status'
+      };
+    }
+  }
+};
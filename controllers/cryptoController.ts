@@ -1,181 +1,222 @@
-import axios from 'axios';
+import { findQuote, marketDataService, QuotedResult } from '../services/marketDataService';
+import { fxService } from '../services/fxService';
+import { CandleInterval, MarketDataError, MarketQuote, TokenChain } from '../services/marketData/types';
+import { riskService } from '../services/riskService';
+import { priceStoreService, StoredHistory } from '../services/priceStoreService';
+import { computeIndicator, IndicatorResult, IndicatorSpec, indicatorKey, SeriesPoint, warmupPoints } from '../services/marketData/indicators';
+import { CANDLE_INTERVAL_MS } from '../services/marketData/candles';
+import { collapsePairs, rankResults } from '../services/marketData/searchRanking';
+import { assetRegistryService, REGISTRY_CHAINS } from '../services/assetRegistryService';
+import { MarketOverviewSnapshot, OverviewSection } from '../services/marketOverviewService';
+import { Currency } from '../config/currencies';
 
-// Base URLs for APIs
-const DEXSCREENER_API = 'https://api.dexscreener.com/latest';
-const COINPAPRIKA_API = 'https://api.coinpaprika.com/v1';
+// Number of results per search bucket
+const SEARCH_LIMIT = 5;
 
-// CoinPaprika API key - for Pro features, loaded from .env
-const COINPAPRIKA_API_KEY = process.env.COINPAPRIKA_API_KEY || '';
+// Results fetched from each provider for ranking
+const DEX_SEARCH_CANDIDATES = 30;
+const COIN_SEARCH_CANDIDATES = 20;
 
-// Rate limiting for CoinPaprika
-const MIN_PAPRIKA_DELAY_MS = 1000; // 1 second, adjust based on CoinPaprika's free/paid tier limits
-let lastPaprikaRequestTime = Date.now();
-let hasLoggedPaprikaRateLimitWarning = false;
+/**
+ * Convert search results from the currency their provider quoted in
+ */
+const convertQuotes = async (result: QuotedResult<MarketQuote[]>, currency: Currency) => {
+  const rate = await fxService.getRate(result.currency, currency);
+  return result.data.map(quote => fxService.convertQuote(quote, rate));
+};
 
-// Helper function to sleep
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Filters and page of a search
+export interface SearchOptions {
+  // Only DEX pairs on this chain
+  chain?: string;
+  // Only DEX pairs with at least this much liquidity (in the search currency)
+  minLiquidity?: number;
+  // Only results from this provider
+  source?: string;
+  // Offset from a previous page's nextCursor
+  offset: number;
+  limit: number;
+}
 
-// Rate-limited request function for CoinPaprika
-async function rateLimitedCoinPaprikaRequest(config: any) {
-  const now = Date.now();
-  const elapsed = now - lastPaprikaRequestTime;
+/**
+ * Opaque cursor for a search offset
+ */
+export const encodeSearchCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString('base64url');
 
-  if (elapsed < MIN_PAPRIKA_DELAY_MS) {
-    await sleep(MIN_PAPRIKA_DELAY_MS - elapsed);
-  }
+/**
+ * Offset of a search cursor, or null if the cursor is invalid
+ */
+export const decodeSearchCursor = (cursor: string): number | null => {
+  const match = Buffer.from(cursor, 'base64url').toString().match(/^offset:(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
 
-  // Add API key if available and it's a CoinPaprika API URL
-  if (COINPAPRIKA_API_KEY && config.url && config.url.includes(COINPAPRIKA_API)) {
-    if (!config.headers) config.headers = {};
-    // CoinPaprika Pro API key is typically sent as an 'Authorization' header
-    // For the free tier, no key is needed. This example assumes a Pro key setup.
-    // If using a free plan, this header might not be necessary or could cause issues.
-    // Refer to CoinPaprika documentation for specific key usage.
-    config.headers['Authorization'] = COINPAPRIKA_API_KEY; 
-  }
+// What to look an asset up by: a coin id, a token contract or mint, or a DEX pair
+export interface AssetLookup {
+  id?: string;
+  chain?: string;
+  address?: string;
+  pair?: string;
+}
 
-  lastPaprikaRequestTime = Date.now();
+// One asset of a batch quote: a coin id or DEX pair (source "dexscreener"), or a token by chain and address
+export interface QuoteRequestItem {
+  id?: string;
+  source?: string;
+  chain?: string;
+  address?: string;
+}
 
+export interface QuoteResultItem extends QuoteRequestItem {
+  quote: MarketQuote | null;
+  // Why there is no quote
+  error?: string;
+}
+
+export const QUOTE_NOT_FOUND = 'Not found';
+
+/**
+ * Message for items whose group of upstream calls failed
+ */
+const quoteErrorMessage = (error: unknown) =>
+  error instanceof MarketDataError && error.kind === 'rate_limited'
+    ? 'Market data providers are rate-limited'
+    : error instanceof MarketDataError && error.kind === 'not_found' ? QUOTE_NOT_FOUND : 'Failed to get quote';
+
+// Series to compute indicators over: price history of the last days, or candles in a range
+export type IndicatorRange = { days: number } | { interval: CandleInterval; from: number; to: number };
+
+interface OverviewOptions {
+  // Only this section (all sections when omitted)
+  section?: OverviewSection;
+  // Only new pairs on this chain (all configured chains when omitted)
+  chain?: string;
+  page: number;
+  limit: number;
+  currency: Currency;
+}
+
+/**
+ * Cut one page out of a snapshot section
+ */
+const paginate = <T>(items: T[], page: number, limit: number) => ({
+  items: items.slice((page - 1) * limit, page * limit),
+  page,
+  limit,
+  total: items.length
+});
+
+/**
+ * Price history in USD: the local store, with its gaps filled from the providers (coins only)
+ * @param coinId Coin id, or pair address when source is "dexscreener"
+ * @param numDays Days of history up to now
+ * @param source Provider to try first; "dexscreener" reads a DEX pair from the store
+ * @returns The points in time order (none when nothing is stored or available) and where they came from
+ */
+const loadPriceHistory = async (coinId: string, numDays: number, source?: string) => {
+  const to = Date.now();
+  const from = to - numDays * 24 * 60 * 60 * 1000;
+  const assetType = source === 'dexscreener' ? 'dex_pair' : 'coin';
+
+  let stored: StoredHistory | null = null;
   try {
-    console.log('Making CoinPaprika request with config:', JSON.stringify(config, null, 2));
-    const response = await axios(config);
-    console.log('CoinPaprika response status:', response.status);
-    return response;
+    stored = await priceStoreService.getHistory(assetType, coinId, from, to);
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      console.error('Axios error in CoinPaprika request:', error.message);
-      if (error.response) {
-        console.error('CoinPaprika error response status:', error.response.status);
-        console.error('CoinPaprika error response data:', JSON.stringify(error.response.data, null, 2));
-        if (error.response.status === 401) { // Unauthorized - API key issue
-          console.error('CoinPaprika API Key is invalid, missing, or not authorized for this resource.');
-        } else if (error.response.status === 429) { // Too Many Requests
-          if (!hasLoggedPaprikaRateLimitWarning) {
-            console.warn('CoinPaprika API rate limit reached (429 Too Many Requests)');
-            hasLoggedPaprikaRateLimitWarning = true;
-            setTimeout(() => { hasLoggedPaprikaRateLimitWarning = false; }, 60000);
-          }
-        }
+    console.error(`Error reading stored price history for ${coinId}:`, (error as Error).message);
+  }
+  const gaps = stored ? priceStoreService.findGaps(stored, from, to) : [[from, to] as [number, number]];
+  let points = stored?.points || [];
+  let provider: string = 'local';
+
+  if (gaps.length > 0 && assetType === 'coin') {
+    try {
+      const result = await marketDataService.history(coinId, numDays, source, 'usd');
+      const fill = result.data.filter(point => gaps.some(([start, end]) => point.timestamp > start && point.timestamp < end));
+      points = [...points, ...fill].sort((a, b) => a.timestamp - b.timestamp);
+      provider = points.length > fill.length ? `local+${result.provider}` : result.provider;
+
+      // Keep the filled points for coins we collect, so the next read is local
+      if (stored && stored.points.length > 0) {
+        priceStoreService.backfill(assetType, coinId, stored.resolution, fill)
+          .catch(error => console.error(`Error backfilling price history for ${coinId}:`, error.message));
       }
-    } else {
-      console.error('Non-Axios error in CoinPaprika request:', error);
+    } catch (error) {
+      // Serve what is stored if the providers fail
+      if (points.length === 0) throw error;
+      console.error(`Error filling price history for ${coinId}:`, (error as Error).message);
     }
-    throw error; // Still throw so the controller can handle it
   }
-}
-
-// Regular request function for non-CoinGecko APIs
-async function regularRequest(config: any) {
-  return axios(config);
-}
+  return { points, provider };
+};
 
 // Controller for cryptocurrency operations
 export const cryptoController = {
   /**
-   * Search for coins by query string
+   * Search for coins and DEX pairs by query string. Pairs are collapsed to the most liquid
+   * pair per base token; results are ranked by match (exact symbol or name first), then by
+   * liquidity, volume and market cap.
    * @param query Search query
-   * @returns Promise with search results
+   * @param currency Currency to quote prices in
+   * @returns Promise with every ranked result, the top of each bucket and the provider used for each bucket
    */
-  searchCoins: async (query: string) => {
+  searchCoins: async (query: string, currency: Currency = 'usd') => {
     try {
       console.log(`Searching for coins with query: ${query}`);
-      
+
       if (!query || query.trim().length < 2) {
         return {
           success: true,
           data: {
             memeAndTrendingCoins: [],
-            majorCoins: []
-          }
+            majorCoins: [],
+            results: []
+          },
+          providers: {
+            memeAndTrendingCoins: null,
+            majorCoins: null
+          },
+          currency
         };
       }
-      
-      // Search in Dexscreener for tokens (remains the same)
-      const dexResponse = await regularRequest({
-        method: 'get',
-        url: `${DEXSCREENER_API}/dex/search?q=${encodeURIComponent(query)}`
-      });
-      
-      const dexTokens = dexResponse.data.pairs || [];
-      const formattedDexTokens = dexTokens
-        .slice(0, 5) 
-        .map((token: any) => ({
-          id: token.pairAddress,
-          name: token.baseToken.name,
-          symbol: token.baseToken.symbol,
-          price: parseFloat(token.priceUsd || '0'),
-          priceChange24h: parseFloat(token.priceChange.h24 || '0'),
-          volume24h: parseFloat(token.volume.h24 || '0'),
-          liquidity: parseFloat(token.liquidity.usd || '0'),
-          isMemeCoin: true,
-          source: 'dexscreener'
-        }));
-      
-      let formattedPaprikaCoins: any[] = [];
-      try {
-        // Search in CoinPaprika
-        // CoinPaprika's search endpoint: /search?q={query}&c=currencies (for coins)
-        const searchResponse = await rateLimitedCoinPaprikaRequest({
-          method: 'get',
-          url: `${COINPAPRIKA_API}/search?q=${encodeURIComponent(query)}&c=currencies&limit=5` // Limit results
-        });
-        
-        const coinResults = searchResponse.data.currencies || [];
-        
-        if (coinResults.length > 0) {
-          // Fetch ticker data for these coins to get market details
-          // CoinPaprika's /tickers endpoint can take multiple IDs, but it's often easier to fetch one by one or use /tickers and filter if the list is small
-          // For simplicity here, we'll fetch tickers for the found coin IDs. 
-          // A more optimized approach might be to fetch all tickers and filter, or use a batch endpoint if available.
-          const paprikaCoinPromises = coinResults.map(async (coin: any) => {
-            try {
-              const tickerResponse = await rateLimitedCoinPaprikaRequest({
-                method: 'get',
-                url: `${COINPAPRIKA_API}/tickers/${coin.id}?quotes=USD`
-              });
-              const tickerData = tickerResponse.data;
-              return {
-                id: tickerData.id,
-                name: tickerData.name,
-                symbol: tickerData.symbol.toUpperCase(),
-                price: tickerData.quotes?.USD?.price || 0,
-                priceChange24h: tickerData.quotes?.USD?.percent_change_24h || 0,
-                volume24h: tickerData.quotes?.USD?.volume_24h || 0,
-                marketCap: tickerData.quotes?.USD?.market_cap || 0,
-                rank: tickerData.rank,
-                logoUrl: `https://static.coinpaprika.com/coin/${tickerData.id}/logo.png`, // Construct logo URL
-                source: 'coinpaprika'
-              };
-            } catch (err) {
-              console.error(`Error fetching ticker for ${coin.id} from CoinPaprika:`, err);
-              // Fallback to basic info from search if ticker fails
-              return {
-                id: coin.id,
-                name: coin.name,
-                symbol: coin.symbol.toUpperCase(),
-                price: 0, priceChange24h: 0, volume24h: 0, marketCap: 0,
-                rank: coin.rank,
-                logoUrl: `https://static.coinpaprika.com/coin/${coin.id}/logo.png`,
-                source: 'coinpaprika'
-              };
-            }
-          });
-          formattedPaprikaCoins = await Promise.all(paprikaCoinPromises);
-        }
-      } catch (error) {
-        if (axios.isAxiosError(error) && error.response?.status === 429) {
-          console.log('Using only DEX results due to CoinPaprika rate limit');
-        } else {
-          console.error('Error with CoinPaprika search:', error);
-        }
+
+      // DEX pairs and listed coins are searched independently; one failing does not drop the other
+      const [dexResult, coinResult] = await Promise.allSettled([
+        marketDataService.search(query, 'dex_pair', DEX_SEARCH_CANDIDATES, currency)
+          .then(async result => {
+            // Scored before conversion; the thresholds are in USD
+            const risks = result.data.map(quote => riskService.scorePair(quote));
+            const quotes = await convertQuotes(result, currency);
+            return { ...result, data: quotes.map((quote, index) => ({ ...quote, risk: risks[index] })) };
+          }),
+        marketDataService.search(query, 'coin', COIN_SEARCH_CANDIDATES, currency)
+          .then(async result => ({ ...result, data: await convertQuotes(result, currency) }))
+      ]);
+
+      if (dexResult.status === 'rejected' && coinResult.status === 'rejected') {
+        throw coinResult.reason;
       }
-      
+      if (dexResult.status === 'rejected') {
+        console.error('Error with DEX search:', (dexResult.reason as Error).message);
+      }
+      if (coinResult.status === 'rejected') {
+        console.error('Error with coin search:', (coinResult.reason as Error).message);
+      }
+
+      const pairs = rankResults(collapsePairs(dexResult.status === 'fulfilled' ? dexResult.value.data : []), query);
+      const coins = rankResults(coinResult.status === 'fulfilled' ? coinResult.value.data : [], query);
+
       return {
         success: true,
         data: {
-          memeAndTrendingCoins: formattedDexTokens,
-          majorCoins: formattedPaprikaCoins
-        }
+          memeAndTrendingCoins: pairs.slice(0, SEARCH_LIMIT) as MarketQuote[],
+          majorCoins: coins.slice(0, SEARCH_LIMIT),
+          results: rankResults<MarketQuote>([...pairs, ...coins], query)
+        },
+        providers: {
+          memeAndTrendingCoins: dexResult.status === 'fulfilled' ? dexResult.value.provider : null,
+          majorCoins: coinResult.status === 'fulfilled' ? coinResult.value.provider : null
+        },
+        currency
       };
     } catch (error) {
       console.error('Error searching coins:', error);
@@ -185,145 +226,123 @@ export const cryptoController = {
       };
     }
   },
-  
-  getCoinDetails: async (coinId: string, source: string) => {
+
+  /**
+   * Filter and page the ranked results of a search; the buckets are left as they are
+   * @param search Result of searchCoins
+   * @param options Filters, offset and page size
+   * @returns The search with one page of results, the number matching and the next page's cursor
+   */
+  pageSearchResults: <T extends { data?: { results: MarketQuote[] } }>(search: T, options: SearchOptions) => {
+    if (!search.data) return search;
+    const { chain, minLiquidity, source, offset, limit } = options;
+    // Coins have no chain or liquidity, so either filter leaves only DEX pairs
+    const matching = search.data.results.filter(quote =>
+      (!chain || quote.chainId === chain) &&
+      (minLiquidity === undefined || (quote.source === 'dexscreener' && (quote.liquidity || 0) >= minLiquidity)) &&
+      (!source || quote.source === source));
+
+    return {
+      ...search,
+      data: {
+        ...search.data,
+        results: matching.slice(offset, offset + limit)
+      },
+      total: matching.length,
+      nextCursor: offset + limit < matching.length ? encodeSearchCursor(offset + limit) : null
+    };
+  },
+
+  /**
+   * Get details of a coin or DEX pair
+   * @param coinId Coin id, or pair address when source is "dexscreener"
+   * @param source Provider to try first; "dexscreener" looks up a DEX pair
+   * @param currency Currency to quote prices in
+   * @returns Promise with coin details and the provider used
+   */
+  getCoinDetails: async (coinId: string, source?: string, currency: Currency = 'usd') => {
     try {
-      console.log(`Getting details for coin: ${coinId} from source: ${source}`);
-      
-      if (source === 'dexscreener') {
-        // Dexscreener logic remains the same
-        const response = await regularRequest({
-          method: 'get',
-          url: `${DEXSCREENER_API}/dex/pairs/${coinId}`
-        });
-        const pair = response.data.pairs?.[0];
-        if (!pair) throw new Error('Pair not found');
+      console.log(`Getting details for coin: ${coinId} from source: ${source || 'default'}`);
+
+      const assetType = source === 'dexscreener' ? 'dex_pair' : 'coin';
+      const result = await marketDataService.details(coinId, assetType, source, currency);
+      const rate = await fxService.getRate(result.currency, currency);
+      const risk = assetType === 'dex_pair' ? await riskService.assessPair(result.data) : undefined;
+
+      return {
+        success: true,
+        data: { ...fxService.convertQuote(result.data, rate), risk },
+        provider: result.provider,
+        currency
+      };
+    } catch (error) {
+      if (error instanceof MarketDataError && error.kind === 'not_found') {
+        console.log(`Coin ID not found by any provider: ${coinId}`);
         return {
-          success: true,
+          success: false,
+          error: 'Token not found in database',
           data: {
-            id: pair.pairAddress,
-            name: pair.baseToken.name,
-            symbol: pair.baseToken.symbol,
-            price: parseFloat(pair.priceUsd || '0'),
-            priceChange24h: parseFloat(pair.priceChange.h24 || '0'),
-            volume24h: parseFloat(pair.volume.h24 || '0'),
-            liquidity: parseFloat(pair.liquidity.usd || '0'),
-            website: pair.url || '',
-            isMemeCoin: true,
-            source: 'dexscreener'
+            id: coinId,
+            name: 'Unknown Token',
+            symbol: 'N/A',
+            message: 'This token was not found in our database. It might be a new or unlisted token.'
           }
         };
-      } else { // Assuming 'coinpaprika' or default to coinpaprika
-        try {
-          // Get coin details from CoinPaprika: /coins/{coin_id}
-          const coinDetailsResponse = await rateLimitedCoinPaprikaRequest({
-            method: 'get',
-            url: `${COINPAPRIKA_API}/coins/${coinId}`
-          });
-          const details = coinDetailsResponse.data;
-
-          // Get ticker data for market info: /tickers/{coin_id}
-          const tickerResponse = await rateLimitedCoinPaprikaRequest({
-            method: 'get',
-            url: `${COINPAPRIKA_API}/tickers/${coinId}?quotes=USD`
-          });
-          const ticker = tickerResponse.data;
-          
-          return {
-            success: true,
-            data: {
-              id: details.id,
-              name: details.name,
-              symbol: details.symbol.toUpperCase(),
-              price: ticker.quotes?.USD?.price || 0,
-              priceChange24h: ticker.quotes?.USD?.percent_change_24h || 0,
-              volume24h: ticker.quotes?.USD?.volume_24h || 0,
-              marketCap: ticker.quotes?.USD?.market_cap || 0,
-              rank: details.rank,
-              logoUrl: `https://static.coinpaprika.com/coin/${details.id}/logo.png`,
-              description: details.description || '',
-              website: details.links?.website?.[0] || '',
-              twitter: details.links?.twitter?.[0]?.url || '',
-              reddit: details.links?.reddit?.[0]?.url || '',
-              github: details.links?.source_code?.[0] || '',
-              source: 'coinpaprika'
-            }
-          };
-        } catch (error) {
-          // Handle specific error cases
-          if (axios.isAxiosError(error)) {
-            if (error.response?.status === 404) {
-              console.log(`Coin ID not found in Coinpaprika: ${coinId}`);
-              return {
-                success: false,
-                error: 'Token not found in database',
-                data: {
-                  id: coinId,
-                  name: 'Unknown Token',
-                  symbol: 'N/A',
-                  message: 'This token was not found in our database. It might be a new or unlisted token.'
-                }
-              };
-            } else if (error.response?.status === 429 || error.response?.status === 401) {
-              return {
-                success: false,
-                error: `CoinPaprika API error: ${error.response.status === 429 ? 'Rate limit reached.' : 'Unauthorized.'} Please try again later or check API key.`
-              };
-            }
-          }
-          // Re-throw other errors
-          throw error;
-        }
       }
-    } catch (error) {
+      if (error instanceof MarketDataError && error.kind === 'rate_limited') {
+        return {
+          success: false,
+          error: 'Market data providers are rate-limited. Please try again later.',
+          retryAfter: error.retryAfter
+        };
+      }
       console.error(`Error getting coin details for ${coinId}:`, error);
       return {
         success: false,
         error: 'Failed to get coin details',
-        message: axios.isAxiosError(error) ? error.response?.data?.error || error.message : 'Unknown error'
+        message: (error as Error).message || 'Unknown error'
       };
     }
   },
-  
-  getPriceHistory: async (coinId: string, days: string = '7') => {
+
+  /**
+   * Get price history of a coin or DEX pair as [timestamp_ms, price] pairs. Points come from
+   * the local price store first; gaps are filled from the providers (and stored for tracked
+   * coins). DEX pairs only have stored history.
+   * @param coinId Coin id, or pair address when source is "dexscreener"
+   * @param days Number of days back
+   * @param source Provider to try first; "dexscreener" reads a DEX pair's stored history
+   * @param currency Currency to quote prices in; history is converted at the current rate
+   * @returns Promise with the history and where it came from ("local" and/or a provider)
+   */
+  getPriceHistory: async (coinId: string, days: string = '7', source?: string, currency: Currency = 'usd') => {
     try {
-      console.log(`Getting price history for coin: ${coinId} (CoinPaprika) for ${days} days`);
-      const numDays = parseInt(days, 10);
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - numDays);
-      const startISO = startDate.toISOString().split('T')[0]; // YYYY-MM-DD
-
-      // CoinPaprika historical ticker data: /tickers/{coin_id}/historical
-      const response = await rateLimitedCoinPaprikaRequest({
-        method: 'get',
-        url: `${COINPAPRIKA_API}/tickers/${coinId}/historical?start=${startISO}&interval=1d&quotes=USD`
-      });
-
-      const historyData = response.data;
-      if (!historyData || historyData.length === 0) {
+      console.log(`Getting price history for coin: ${coinId} for ${days} days`);
+      const numDays = parseInt(days, 10) || 7;
+      const { points, provider } = await loadPriceHistory(coinId, numDays, source);
+      if (points.length === 0) {
         return {
-          success: true,
-          data: [] // Return empty array if no history
+          success: false,
+          error: source === 'dexscreener'
+            ? 'No price history has been collected for this pair yet'
+            : `No price history for ${coinId}`
         };
       }
 
-      // Format: [{ timestamp: string (ISO), price: number, volume_24h: number, market_cap: number }]
-      // We need [timestamp_ms, price]
-      const formattedHistory = historyData.map((dataPoint: any) => [
-        new Date(dataPoint.timestamp).getTime(), // Convert ISO string to milliseconds timestamp
-        dataPoint.price
-      ]);
-
+      const rate = await fxService.getRate('usd', currency);
       return {
         success: true,
-        data: formattedHistory
+        data: points.map(point => [point.timestamp, point.price * rate]),
+        provider,
+        currency
       };
     } catch (error) {
-      console.error(`Error getting price history for ${coinId} from CoinPaprika:`, error);
-      if (axios.isAxiosError(error) && (error.response?.status === 429 || error.response?.status === 401)) {
+      console.error(`Error getting price history for ${coinId}:`, error);
+      if (error instanceof MarketDataError && error.kind === 'rate_limited') {
         return {
           success: false,
-          error: `CoinPaprika API error: ${error.response.status === 429 ? 'Rate limit reached.' : 'Unauthorized.'} Cannot fetch price history.`
+          error: 'Market data providers are rate-limited. Cannot fetch price history.',
+          retryAfter: error.retryAfter
         };
       }
       return {
@@ -332,9 +351,354 @@ export const cryptoController = {
       };
     }
   },
-};
 
-// Remove CoinGecko specific environment variable loading and functions.
-// The COINGECKO_API_KEY is already removed from the top.
-// The rateLimitedCoinGeckoRequest function is replaced by rateLimitedCoinPaprikaRequest.
-// All CoinGecko API calls are replaced with CoinPaprika calls.
+  /**
+   * Get OHLCV candles of a coin or DEX pair
+   * @param coinId Coin id, or pair address when source is "dexscreener"
+   * @param interval Candle interval
+   * @param from Start of the range (ms)
+   * @param to End of the range (ms)
+   * @param source Provider to try first; "dexscreener" looks up a DEX pair
+   * @param currency Currency to quote prices in; fiat candles are converted at the current rate
+   * @returns Promise with the candles and the provider used
+   */
+  getOhlcv: async (
+    coinId: string,
+    interval: CandleInterval,
+    from: number,
+    to: number,
+    source?: string,
+    currency: Currency = 'usd'
+  ) => {
+    try {
+      console.log(`Getting ${interval} candles for coin: ${coinId}`);
+
+      const assetType = source === 'dexscreener' ? 'dex_pair' : 'coin';
+      const result = await marketDataService.ohlcv(coinId, assetType, interval, from, to, source, currency);
+      const rate = await fxService.getRate(result.currency, currency);
+
+      return {
+        success: true,
+        data: result.data.map(candle => fxService.convertCandle(candle, rate)),
+        interval,
+        provider: result.provider,
+        currency
+      };
+    } catch (error) {
+      console.error(`Error getting candles for ${coinId}:`, error);
+      if (error instanceof MarketDataError && error.kind === 'not_found') {
+        return {
+          success: false,
+          error: 'Token not found in database'
+        };
+      }
+      if (error instanceof MarketDataError && error.kind === 'rate_limited') {
+        return {
+          success: false,
+          error: 'Market data providers are rate-limited. Cannot fetch candles.',
+          retryAfter: error.retryAfter
+        };
+      }
+      return {
+        success: false,
+        error: `Failed to get candles for ${coinId}`
+      };
+    }
+  },
+
+  /**
+   * Page and convert a market overview snapshot
+   * @param snapshot Snapshot from the market overview service (USD)
+   * @param options Section, chain, page, page size and currency
+   * @returns Paginated sections, the snapshot time and the providers used
+   */
+  getMarketOverview: async (snapshot: MarketOverviewSnapshot, options: OverviewOptions) => {
+    const { section, chain, page, limit, currency } = options;
+    const rate = await fxService.getRate('usd', currency);
+    const convertPage = (quotes: MarketQuote[]) => {
+      const result = paginate(quotes, page, limit);
+      return { ...result, items: result.items.map(quote => fxService.convertQuote(quote, rate)) };
+    };
+
+    const data: Record<string, unknown> = {};
+    for (const name of ['topMarketCap', 'gainers', 'losers', 'highestVolume'] as const) {
+      if (!section || section === name) data[name] = convertPage(snapshot[name]);
+    }
+    if (!section || section === 'newPairs') {
+      const chains = chain ? [chain] : Object.keys(snapshot.newPairs);
+      data.newPairs = Object.fromEntries(chains.map(name => [name, convertPage(snapshot.newPairs[name] || [])]));
+    }
+
+    return {
+      success: true,
+      data,
+      generatedAt: snapshot.generatedAt,
+      providers: snapshot.providers,
+      currency
+    };
+  },
+
+  /**
+   * Look an asset up in the asset registry
+   * @param lookup Coin id (any provider), chain and token address, or DEX pair address (optionally with its chain)
+   * @returns Promise with the asset's provider ids, contracts, symbol and logo
+   */
+  lookupAsset: async (lookup: AssetLookup) => {
+    try {
+      let asset = null;
+      if (lookup.id) {
+        asset = await assetRegistryService.findByProviderId(lookup.id);
+      } else if (lookup.address) {
+        asset = await assetRegistryService.findByContract(lookup.chain as TokenChain, lookup.address);
+      } else if (lookup.pair) {
+        // A pair is identified by its base token
+        const pairId = lookup.chain ? `${lookup.chain}:${lookup.pair}` : lookup.pair;
+        const { data } = await marketDataService.quote([pairId], 'dex_pair');
+        const pair = data[0];
+        if (pair?.tokenAddress && REGISTRY_CHAINS.includes(pair.chainId as TokenChain)) {
+          asset = await assetRegistryService.findByContract(pair.chainId as TokenChain, pair.tokenAddress);
+        }
+      }
+
+      if (!asset) {
+        return {
+          success: false,
+          error: 'Asset not found in registry'
+        };
+      }
+      return {
+        success: true,
+        data: asset
+      };
+    } catch (error) {
+      console.error('Error looking up asset:', error);
+      if (error instanceof MarketDataError && error.kind === 'not_found') {
+        return {
+          success: false,
+          error: 'Asset not found in registry'
+        };
+      }
+      return {
+        success: false,
+        error: 'Failed to look up asset'
+      };
+    }
+  },
+
+  /**
+   * Score the rug-pull and scam risk of a DEX pair
+   * @param pairId Pair address, optionally as "chain:pairAddress"
+   * @returns Promise with the overall score and level, each factor, and the pair scored
+   */
+  getRisk: async (pairId: string) => {
+    try {
+      console.log(`Scoring risk of pair: ${pairId}`);
+
+      const result = await marketDataService.quote([pairId], 'dex_pair');
+      const pair = result.data[0];
+      if (!pair) {
+        return {
+          success: false,
+          error: 'Pair not found'
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          id: pair.id,
+          chainId: pair.chainId,
+          tokenAddress: pair.tokenAddress,
+          name: pair.name,
+          symbol: pair.symbol,
+          ...await riskService.assessPair(pair)
+        },
+        provider: result.provider
+      };
+    } catch (error) {
+      console.error(`Error scoring risk of ${pairId}:`, error);
+      if (error instanceof MarketDataError && error.kind === 'not_found') {
+        return {
+          success: false,
+          error: 'Pair not found'
+        };
+      }
+      if (error instanceof MarketDataError && error.kind === 'rate_limited') {
+        return {
+          success: false,
+          error: 'Market data providers are rate-limited. Please try again later.',
+          retryAfter: error.retryAfter
+        };
+      }
+      return {
+        success: false,
+        error: `Failed to score risk of ${pairId}`
+      };
+    }
+  },
+
+  /**
+   * Quote many assets at once. Coins are quoted per preferred provider, DEX pairs and tokens
+   * per chain, each group in as few upstream calls as the provider allows. A group that
+   * fails only fails its own items.
+   * @param items Assets to quote
+   * @param currency Currency to quote prices in
+   * @returns Promise with one result per item, in order, each with a quote or an error
+   */
+  getQuotes: async (items: QuoteRequestItem[], currency: Currency = 'usd') => {
+    console.log(`Getting quotes for ${items.length} assets`);
+
+    // Group of each item and the id or address requested for it
+    const requests = items.map(item => {
+      if (item.address) {
+        return { group: `token:${item.chain}`, key: item.address };
+      }
+      if (item.source === 'dexscreener') {
+        return { group: 'dex_pair:dexscreener', key: item.chain && !item.id!.includes(':') ? `${item.chain}:${item.id}` : item.id! };
+      }
+      return { group: `coin:${item.source || ''}`, key: item.id! };
+    });
+    const groups = new Map<string, Set<string>>();
+    for (const { group, key } of requests) {
+      groups.set(group, (groups.get(group) || new Set<string>()).add(key));
+    }
+
+    // Load a group and return a lookup of its quotes by requested id or address
+    const loadGroup = async (group: string, keys: string[]): Promise<(key: string) => MarketQuote | null> => {
+      const [kind, param] = group.split(':');
+      if (kind === 'token') {
+        const { data } = await marketDataService.tokenQuotes(param, keys);
+        const rate = await fxService.getRate('usd', currency);
+        return key => (data[key] ? fxService.convertQuote(data[key], rate) : null);
+      }
+      const assetType = kind === 'dex_pair' ? 'dex_pair' : 'coin';
+      const result = await marketDataService.quote(keys, assetType, param || undefined, currency);
+      const quotes = await convertQuotes(result, currency);
+      return key => findQuote(quotes, key, param || 'coinpaprika');
+    };
+
+    const names = Array.from(groups.keys());
+    const loaded = await Promise.allSettled(names.map(group => loadGroup(group, Array.from(groups.get(group)!))));
+    const lookups = new Map(names.map((group, index) => [group, loaded[index]]));
+    loaded.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error getting quotes for ${names[index]}:`, (result.reason as Error).message);
+      }
+    });
+
+    const data: QuoteResultItem[] = items.map((item, index) => {
+      const lookup = lookups.get(requests[index].group)!;
+      if (lookup.status === 'rejected') {
+        return { ...item, quote: null, error: quoteErrorMessage(lookup.reason) };
+      }
+      const quote = lookup.value(requests[index].key);
+      return quote ? { ...item, quote } : { ...item, quote: null, error: QUOTE_NOT_FOUND };
+    });
+
+    return {
+      success: true,
+      data,
+      currency
+    };
+  },
+
+  /**
+   * Compute technical indicators over a coin's price history or a coin's or DEX pair's candles.
+   * Candle ranges are fetched with enough earlier candles for every indicator to have a value
+   * from the start of the range; history is the same series /price-history returns.
+   * @param coinId Coin id, or pair address when source is "dexscreener"
+   * @param indicators Indicators and their parameters
+   * @param range Days of history, or candle interval and range (ms)
+   * @param source Provider to try first; "dexscreener" looks up a DEX pair (candles only)
+   * @param currency Currency to quote prices in
+   * @returns Promise with the timestamps, closing prices and each indicator aligned with them
+   */
+  getIndicators: async (
+    coinId: string,
+    indicators: IndicatorSpec[],
+    range: IndicatorRange,
+    source?: string,
+    currency: Currency = 'usd'
+  ) => {
+    try {
+      console.log(`Computing indicators for coin: ${coinId}`);
+
+      let points: SeriesPoint[];
+      let start = 0;
+      let provider;
+      if ('interval' in range) {
+        const warmup = Math.max(...indicators.map(warmupPoints));
+        const assetType = source === 'dexscreener' ? 'dex_pair' : 'coin';
+        const result = await marketDataService.ohlcv(
+          coinId, assetType, range.interval, range.from - warmup * CANDLE_INTERVAL_MS[range.interval], range.to, source, currency
+        );
+        const rate = await fxService.getRate(result.currency, currency);
+        points = result.data.map(candle => fxService.convertCandle(candle, rate)).map(candle => ({
+          timestamp: candle.timestamp,
+          close: candle.close,
+          high: candle.high,
+          low: candle.low,
+          volume: candle.volume
+        }));
+        const first = points.findIndex(point => point.timestamp >= range.from);
+        start = first === -1 ? points.length : first;
+        provider = result.provider;
+      } else {
+        const history = await loadPriceHistory(coinId, range.days, source);
+        if (history.points.length === 0) {
+          return { success: false, error: `No price history for ${coinId}` };
+        }
+        const rate = await fxService.getRate('usd', currency);
+        // History points carry rolling 24h volume, which VWAP cannot use
+        points = history.points.map(point => ({ timestamp: point.timestamp, close: point.price * rate }));
+        provider = history.provider;
+      }
+
+      const trim = (values: (number | null)[]) => values.slice(start);
+      const computed: Record<string, IndicatorResult> = {};
+      for (const spec of indicators) {
+        // VWAP is anchored at the start of the range, not at the first warm-up candle
+        if (spec.name === 'vwap') {
+          computed[indicatorKey(spec)] = computeIndicator(points.slice(start), spec);
+          continue;
+        }
+        const values = computeIndicator(points, spec);
+        computed[indicatorKey(spec)] = Array.isArray(values)
+          ? trim(values)
+          : Object.fromEntries(Object.entries(values).map(([line, series]) => [line, trim(series)]));
+      }
+
+      return {
+        success: true,
+        data: {
+          timestamps: points.slice(start).map(point => point.timestamp),
+          close: points.slice(start).map(point => point.close),
+          indicators: computed
+        },
+        series: 'interval' in range ? 'ohlcv' : 'history',
+        interval: 'interval' in range ? range.interval : undefined,
+        provider,
+        currency
+      };
+    } catch (error) {
+      console.error(`Error computing indicators for ${coinId}:`, error);
+      if (error instanceof MarketDataError && error.kind === 'not_found') {
+        return {
+          success: false,
+          error: 'Token not found in database'
+        };
+      }
+      if (error instanceof MarketDataError && error.kind === 'rate_limited') {
+        return {
+          success: false,
+          error: 'Market data providers are rate-limited. Cannot compute indicators.',
+          retryAfter: error.retryAfter
+        };
+      }
+      return {
+        success: false,
+        error: `Failed to compute indicators for ${coinId}`
+      };
+    }
+  },
+};
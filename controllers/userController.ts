@@ -2,6 +2,17 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import mongoose, { CallbackError } from 'mongoose';
 import { Request, Response, NextFunction } from 'express';
+import { sessionService, ClientInfo, getClientInfo } from '../services/sessionService';
+import { accountTokenService } from '../services/accountTokenService';
+import { mailService } from '../services/mailService';
+import { totpService } from '../services/totpService';
+import { walletAuthService, WalletAuthPurpose } from '../services/walletAuthService';
+import { userWalletService } from '../services/userWalletService';
+import { apiKeyService } from '../services/apiKeyService';
+import { accountDataService } from '../services/accountDataService';
+import { auditLogService, AuditEventType } from '../services/auditLogService';
+import { Permission, ROLES, Role, resolvePermissions } from '../config/permissions';
+import { CURRENCIES, Currency, isCurrency } from '../config/currencies';
 
 // Use JWT_SECRET from local .env file
 const JWT_SECRET = process.env.JWT_SECRET as string;
@@ -12,6 +23,15 @@ if (!JWT_SECRET) {
   process.exit(1);
 }
 
+// Access tokens are short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
+// Lifetime of the challenge token handed out between the password and TOTP steps
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+// Base URL of the app, used to build links in emails
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
 // Define custom interface to extend Express Request
 interface CustomRequest extends Request {
   user?: {
@@ -25,10 +45,48 @@ interface CustomRequest extends Request {
 interface JWTPayload {
   userId: string;
   email: string;
+  sid: string;
+  role: Role;
+  permissions: Permission[];
   iat?: number;
   exp?: number;
 }
 
+// Payload of the token issued after the password step of a two-factor login
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: '2fa_challenge';
+}
+
+// Filters for the admin user listing
+interface UserSearchOptions {
+  query?: string;
+  role?: string;
+  disabled?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+// Signed wallet message confirming an action on an account without a password
+interface WalletProof {
+  message?: string;
+  signature?: string;
+}
+
+// Admin performing an action on another account
+interface AdminActor {
+  userId: string;
+  client: ClientInfo;
+}
+
+// Profile fields a user can change
+interface ProfileUpdate {
+  fullName?: string;
+  email?: string;
+  // Default currency for prices and wallet values
+  currency?: Currency;
+}
+
 // Define user data interface
 interface UserData {
   fullName: string;
@@ -48,23 +106,94 @@ const userSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  // Accounts created by wallet sign-in have no email or password
   email: {
     type: String,
-    required: true,
     unique: true,
+    sparse: true,
     lowercase: true,
     trim: true
   },
   password: {
     type: String,
-    required: true,
     minlength: 6
   },
-  walletAddress: {
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date,
+    default: null
+  },
+  // New email address awaiting verification before it replaces `email`
+  pendingEmail: {
     type: String,
+    lowercase: true,
     trim: true,
     default: ''
   },
+  role: {
+    type: String,
+    enum: ROLES,
+    default: 'user'
+  },
+  // Permissions granted individually on top of the role
+  permissions: {
+    type: [String],
+    default: []
+  },
+  // Disabled accounts cannot log in or refresh tokens
+  disabled: {
+    type: Boolean,
+    default: false
+  },
+  disabledAt: {
+    type: Date,
+    default: null
+  },
+  disabledReason: {
+    type: String,
+    default: ''
+  },
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    // Encrypted TOTP secret, set once enrollment is confirmed
+    secret: {
+      type: String,
+      default: ''
+    },
+    // Encrypted TOTP secret awaiting confirmation with a first code
+    pendingSecret: {
+      type: String,
+      default: ''
+    },
+    // Hashes of the unused one-time backup codes
+    backupCodes: {
+      type: [String],
+      default: []
+    },
+    // Time step of the last accepted code, so a code cannot be replayed
+    lastUsedStep: {
+      type: Number,
+      default: -1
+    },
+    enabledAt: {
+      type: Date,
+      default: null
+    }
+  },
+  preferences: {
+    // Used by price endpoints when a request does not pass ?currency=
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: 'usd'
+    }
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -73,7 +202,7 @@ const userSchema = new mongoose.Schema({
 
 // Pre-save hook to hash the password before saving
 userSchema.pre('save', async function(next) {
-  if (!this.isModified('password')) return next();
+  if (!this.isModified('password') || !this.password) return next();
   
   try {
     const salt = await bcrypt.genSalt(10);
@@ -90,7 +219,7 @@ const User = mongoose.model('User', userSchema);
 // User controller functions
 class UserController {
   // Register a new user
-  async register(userData: UserData) {
+  async register(userData: UserData, client: ClientInfo = {}) {
     try {
       // Check if user already exists
       const existingUser = await User.findOne({ email: userData.email });
@@ -107,17 +236,17 @@ class UserController {
       
       // Save the user to the database
       await user.save();
+      auditLogService.record({ event: 'register', outcome: 'success', userId: user._id.toString(), client });
       
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user._id.toString(), email: user.email } as JWTPayload,
-        JWT_SECRET,
-        { expiresIn: '7d' }
-      );
+      // Ask the user to confirm their email address
+      await this.sendVerificationEmail(user._id.toString(), userData.email.toLowerCase().trim());
+      
+      // Start a session and issue its tokens
+      const tokens = await this.issueTokens(user, client);
       
       return {
         success: true,
-        token,
+        ...tokens,
         user: {
           id: user._id,
           fullName: user.fullName,
@@ -132,30 +261,80 @@ class UserController {
   }
   
   // Login user
-  async login(email: string, password: string) {
+  async login(email: string, password: string, client: ClientInfo = {}) {
     try {
       // Find user by email
       const user = await User.findOne({ email });
       if (!user) {
+        auditLogService.record({ event: 'login', outcome: 'failure', client, details: { email, reason: 'unknown_email' } });
         return { success: false, message: 'Invalid email or password' };
       }
       
       // Compare passwords
-      const isMatch = await bcrypt.compare(password, user.password);
+      const isMatch = !!user.password && await bcrypt.compare(password, user.password);
       if (!isMatch) {
+        auditLogService.record({
+          event: 'login',
+          outcome: 'failure',
+          userId: user._id.toString(),
+          client,
+          details: { reason: 'invalid_password' }
+        });
         return { success: false, message: 'Invalid email or password' };
       }
       
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user._id.toString(), email: user.email } as JWTPayload,
-        JWT_SECRET,
-        { expiresIn: '7d' }
-      );
+      return { ...(await this.startLogin(user, client, 'login')) };
+    } catch (error: unknown) {
+      console.error('Error in login:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to login', error: apiError.message };
+    }
+  }
+  
+  // Complete a two-factor login with a TOTP or backup code
+  async completeTwoFactorLogin(challengeToken: string, code: string, client: ClientInfo = {}) {
+    try {
+      let challenge: TwoFactorChallengePayload;
+      try {
+        challenge = jwt.verify(challengeToken, JWT_SECRET) as TwoFactorChallengePayload;
+      } catch (error: unknown) {
+        auditLogService.record({ event: 'login_2fa', outcome: 'failure', client, details: { reason: 'invalid_challenge' } });
+        return { success: false, message: 'Invalid or expired challenge token' };
+      }
+      if (challenge.purpose !== '2fa_challenge') {
+        auditLogService.record({ event: 'login_2fa', outcome: 'failure', client, details: { reason: 'invalid_challenge' } });
+        return { success: false, message: 'Invalid or expired challenge token' };
+      }
+      
+      const user = await User.findById(challenge.userId);
+      if (!user || !user.twoFactor?.enabled || user.disabled) {
+        auditLogService.record({
+          event: 'login_2fa',
+          outcome: 'failure',
+          userId: challenge.userId,
+          client,
+          details: { reason: 'invalid_challenge' }
+        });
+        return { success: false, message: 'Invalid or expired challenge token' };
+      }
+      
+      if (!(await this.verifySecondFactor(user, code))) {
+        auditLogService.record({
+          event: 'login_2fa',
+          outcome: 'failure',
+          userId: user._id.toString(),
+          client,
+          details: { reason: 'invalid_code' }
+        });
+        return { success: false, message: 'Invalid two-factor code' };
+      }
+      
+      const tokens = await this.issueTokens(user, client);
+      auditLogService.record({ event: 'login_2fa', outcome: 'success', userId: user._id.toString(), client });
       
       return {
         success: true,
-        token,
+        ...tokens,
         user: {
           id: user._id,
           fullName: user.fullName,
@@ -163,9 +342,134 @@ class UserController {
         }
       };
     } catch (error: unknown) {
-      console.error('Error in login:', error);
+      console.error('Error in completeTwoFactorLogin:', error);
       const apiError = error as ApiError;
-      return { success: false, message: 'Failed to login', error: apiError.message };
+      return { success: false, message: 'Failed to complete two-factor login', error: apiError.message };
+    }
+  }
+  
+  // Account a two-factor challenge belongs to, keyed like password logins (the email, or the
+  // user ID for accounts without one), so code guesses count towards the same lockout.
+  // Null for invalid or expired challenge tokens.
+  async getChallengeAccount(challengeToken: string): Promise<string | null> {
+    try {
+      const challenge = jwt.verify(challengeToken, JWT_SECRET) as TwoFactorChallengePayload;
+      if (challenge.purpose !== '2fa_challenge') {
+        return null;
+      }
+      const user = await User.findById(challenge.userId).select('email');
+      return user ? (user.email || user._id.toString()) : null;
+    } catch (error: unknown) {
+      return null;
+    }
+  }
+  
+  // Create the message a wallet has to sign to log in or to be linked to an account
+  async createWalletChallenge(address: string, purpose: WalletAuthPurpose, userId?: string) {
+    try {
+      const challenge = await walletAuthService.createChallenge(address, purpose, userId);
+      if (typeof challenge === 'string') {
+        return { success: false, message: challenge };
+      }
+      
+      return { success: true, ...challenge };
+    } catch (error: unknown) {
+      console.error('Error in createWalletChallenge:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to create wallet challenge', error: apiError.message };
+    }
+  }
+  
+  // Log in (or register) with a signed wallet message
+  async walletLogin(message: string, signature: string, client: ClientInfo = {}) {
+    try {
+      const verification = await walletAuthService.verifySignedMessage(message, signature, 'login');
+      if (!verification.success || !verification.address) {
+        auditLogService.record({
+          event: 'wallet_login',
+          outcome: 'failure',
+          client,
+          details: { address: verification.address, reason: verification.message }
+        });
+        return { success: false, message: verification.message || 'Wallet verification failed' };
+      }
+      
+      // Only wallets whose ownership was proven may be used to log in
+      const ownerId = await userWalletService.findVerifiedOwner(verification.address);
+      let user = ownerId ? await User.findById(ownerId) : null;
+      const isNewUser = !user;
+      if (!user) {
+        user = new User({
+          fullName: `${verification.address.slice(0, 6)}...${verification.address.slice(-4)}`
+        });
+        await user.save();
+        
+        const added = await userWalletService.addWallet(user._id.toString(), verification.address, { verified: true });
+        if (!added.success) {
+          await User.deleteOne({ _id: user._id });
+          return { success: false, message: added.message };
+        }
+      }
+      
+      const result = await this.startLogin(user, client, 'wallet_login', { address: verification.address, isNewUser });
+      return { ...result, isNewUser };
+    } catch (error: unknown) {
+      console.error('Error in walletLogin:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to login with wallet', error: apiError.message };
+    }
+  }
+  
+  // Link a wallet to an existing account after proving ownership with a signature
+  async linkWallet(userId: string, message: string, signature: string, client: ClientInfo = {}) {
+    try {
+      const verification = await walletAuthService.verifySignedMessage(message, signature, 'link');
+      if (!verification.success || !verification.address) {
+        auditLogService.record({
+          event: 'wallet_link',
+          outcome: 'failure',
+          userId,
+          client,
+          details: { address: verification.address, reason: verification.message }
+        });
+        return { success: false, message: verification.message || 'Wallet verification failed' };
+      }
+      if (verification.userId !== userId) {
+        auditLogService.record({
+          event: 'wallet_link',
+          outcome: 'failure',
+          userId,
+          client,
+          details: { address: verification.address, reason: 'challenge_for_other_account' }
+        });
+        return { success: false, message: 'This challenge was issued for another account' };
+      }
+      
+      const user = await User.findById(userId).select('-password');
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      const added = await userWalletService.addWallet(userId, verification.address, { verified: true });
+      auditLogService.record({
+        event: 'wallet_link',
+        outcome: added.success ? 'success' : 'failure',
+        userId,
+        client,
+        details: { address: verification.address, ...(added.success ? {} : { reason: added.message }) }
+      });
+      if (!added.success) {
+        return { success: false, message: added.message };
+      }
+      
+      return {
+        success: true,
+        wallet: added.wallet
+      };
+    } catch (error: unknown) {
+      console.error('Error in linkWallet:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to link wallet', error: apiError.message };
     }
   }
   
@@ -177,13 +481,25 @@ class UserController {
         return { success: false, message: 'User not found' };
       }
       
+      const walletList = await userWalletService.listWallets(userId);
+      const wallets = walletList.wallets || [];
+      const primaryWallet = wallets.find(wallet => wallet.isPrimary);
+      
       return {
         success: true,
         user: {
           id: user._id,
           fullName: user.fullName,
           email: user.email,
-          walletAddress: user.walletAddress || '',
+          emailVerified: user.emailVerified,
+          pendingEmail: user.pendingEmail,
+          twoFactorEnabled: !!user.twoFactor?.enabled,
+          role: user.role,
+          walletAddress: primaryWallet?.address || '',
+          wallets,
+          preferences: {
+            currency: user.preferences?.currency || 'usd'
+          },
           createdAt: user.createdAt
         }
       };
@@ -194,26 +510,35 @@ class UserController {
     }
   }
   
-  // Update wallet address for a user
-  async updateWalletAddress(userId: string, walletAddress: string) {
+  // Update wallet address for a user (kept for older clients: adds the wallet and makes it primary)
+  async updateWalletAddress(userId: string, walletAddress: string, client: ClientInfo = {}) {
     try {
-      const user = await User.findByIdAndUpdate(
-        userId,
-        { walletAddress },
-        { new: true, runValidators: true }
-      ).select('-password');
+      const user = await User.findById(userId).select('-password');
       
       if (!user) {
         return { success: false, message: 'User not found' };
       }
       
+      const added = await userWalletService.addWallet(userId, walletAddress, { makePrimary: true });
+      auditLogService.record({
+        event: 'wallet_add',
+        outcome: added.success ? 'success' : 'failure',
+        userId,
+        client,
+        details: { address: added.wallet?.address || walletAddress, makePrimary: true, ...(added.success ? {} : { reason: added.message }) }
+      });
+      if (!added.success || !added.wallet) {
+        return { success: false, message: added.message || 'Failed to update wallet address' };
+      }
+      
       return {
         success: true,
         user: {
           id: user._id,
           fullName: user.fullName,
           email: user.email,
-          walletAddress: user.walletAddress,
+          walletAddress: added.wallet.address,
+          walletVerified: added.wallet.verified,
           createdAt: user.createdAt
         }
       };
@@ -224,8 +549,887 @@ class UserController {
     }
   }
   
-  // Middleware to verify JWT token
-  verifyToken(req: CustomRequest, res: Response, next: NextFunction) {
+  // Send a password reset link if an account exists for the email
+  async requestPasswordReset(email: string, client: ClientInfo = {}) {
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    const response = { success: true, message: 'If an account exists for this email, a reset link has been sent' };
+    try {
+      const user = await User.findOne({ email: email.toLowerCase().trim() });
+      auditLogService.record({
+        event: 'password_reset_request',
+        outcome: user ? 'success' : 'failure',
+        userId: user ? user._id.toString() : null,
+        client,
+        details: user ? {} : { email: email.toLowerCase().trim(), reason: 'unknown_email' }
+      });
+      if (!user) {
+        return response;
+      }
+      
+      const token = await accountTokenService.issue(user._id.toString(), 'password_reset');
+      const link = `${APP_URL}/reset-password?token=${token}`;
+      await mailService.send({
+        to: email.toLowerCase().trim(),
+        subject: 'Reset your Snix password',
+        text: `Hi ${user.fullName},\n\nUse the link below to reset your password. The link can only be used once and expires soon.\n\n${link}\n\nIf you did not request this, you can ignore this email.`
+      });
+      
+      return response;
+    } catch (error: unknown) {
+      console.error('Error in requestPasswordReset:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to request password reset', error: apiError.message };
+    }
+  }
+  
+  // Set a new password using a password reset token
+  async resetPassword(token: string, newPassword: string, client: ClientInfo = {}) {
+    try {
+      const consumed = await accountTokenService.consume(token, 'password_reset');
+      if (!consumed) {
+        auditLogService.record({ event: 'password_reset', outcome: 'failure', client, details: { reason: 'invalid_token' } });
+        return { success: false, message: 'Invalid or expired reset token' };
+      }
+      
+      const user = await User.findById(consumed.userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      // The pre-save hook hashes the new password
+      user.password = newPassword;
+      await user.save();
+      
+      // A password reset signs the user out everywhere and revokes their API keys
+      await sessionService.revokeAllSessions(user._id.toString(), 'password_reset');
+      const revokedApiKeys = await apiKeyService.revokeAllKeys(user._id.toString());
+      auditLogService.record({ event: 'password_reset', outcome: 'success', userId: user._id.toString(), client, details: { revokedApiKeys } });
+      
+      return { success: true, message: 'Password has been reset' };
+    } catch (error: unknown) {
+      console.error('Error in resetPassword:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to reset password', error: apiError.message };
+    }
+  }
+  
+  // Confirm an email address using a verification token
+  async verifyEmail(token: string, client: ClientInfo = {}) {
+    try {
+      const consumed = await accountTokenService.consume(token, 'email_verification');
+      if (!consumed) {
+        auditLogService.record({ event: 'email_verification', outcome: 'failure', client, details: { reason: 'invalid_token' } });
+        return { success: false, message: 'Invalid or expired verification token' };
+      }
+      
+      const user = await User.findById(consumed.userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      // Confirming a pending address makes it the account's email
+      if (consumed.data.email && consumed.data.email === user.pendingEmail) {
+        const taken = await User.exists({ email: user.pendingEmail, _id: { $ne: user._id } });
+        if (taken) {
+          return { success: false, message: 'This email is already used by another account' };
+        }
+        user.email = user.pendingEmail;
+        user.pendingEmail = '';
+      } else if (consumed.data.email && consumed.data.email !== user.email) {
+        // The token is only valid for the address it was sent to
+        return { success: false, message: 'Invalid or expired verification token' };
+      }
+      
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+      auditLogService.record({
+        event: 'email_verification',
+        outcome: 'success',
+        userId: user._id.toString(),
+        client,
+        details: { email: user.email }
+      });
+      
+      return { success: true, message: 'Email verified' };
+    } catch (error: unknown) {
+      console.error('Error in verifyEmail:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to verify email', error: apiError.message };
+    }
+  }
+  
+  // Send a new verification email to the user
+  async resendVerificationEmail(userId: string) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      const email = user.pendingEmail || user.email;
+      if (!email) {
+        return { success: false, message: 'No email address on this account' };
+      }
+      if (!user.pendingEmail && user.emailVerified) {
+        return { success: false, message: 'Email is already verified' };
+      }
+      
+      await this.sendVerificationEmail(user._id.toString(), email);
+      return { success: true, message: 'Verification email sent' };
+    } catch (error: unknown) {
+      console.error('Error in resendVerificationEmail:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to send verification email', error: apiError.message };
+    }
+  }
+  
+  // Start two-factor enrollment by generating a new TOTP secret
+  async setupTwoFactor(userId: string) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (user.twoFactor?.enabled) {
+        return { success: false, message: 'Two-factor authentication is already enabled' };
+      }
+      
+      const secret = totpService.generateSecret();
+      user.set('twoFactor.pendingSecret', totpService.encryptSecret(secret));
+      await user.save();
+      
+      return {
+        success: true,
+        secret,
+        otpauthUri: totpService.buildOtpAuthUri(secret, user.email || user.fullName)
+      };
+    } catch (error: unknown) {
+      console.error('Error in setupTwoFactor:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to set up two-factor authentication', error: apiError.message };
+    }
+  }
+  
+  // Confirm enrollment with a first code and hand out backup codes
+  async confirmTwoFactor(userId: string, code: string, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (user.twoFactor?.enabled) {
+        return { success: false, message: 'Two-factor authentication is already enabled' };
+      }
+      if (!user.twoFactor?.pendingSecret) {
+        return { success: false, message: 'Two-factor setup has not been started' };
+      }
+      
+      const secret = totpService.decryptSecret(user.twoFactor.pendingSecret);
+      const step = totpService.verifyCode(secret, code);
+      if (step === null) {
+        auditLogService.record({ event: 'two_factor_enable', outcome: 'failure', userId, client, details: { reason: 'invalid_code' } });
+        return { success: false, message: 'Invalid two-factor code' };
+      }
+      
+      const backupCodes = totpService.generateBackupCodes();
+      user.set('twoFactor', {
+        enabled: true,
+        secret: user.twoFactor.pendingSecret,
+        pendingSecret: '',
+        backupCodes: backupCodes.hashes,
+        lastUsedStep: step,
+        enabledAt: new Date()
+      });
+      await user.save();
+      auditLogService.record({ event: 'two_factor_enable', outcome: 'success', userId, client });
+      
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled',
+        backupCodes: backupCodes.codes
+      };
+    } catch (error: unknown) {
+      console.error('Error in confirmTwoFactor:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to confirm two-factor authentication', error: apiError.message };
+    }
+  }
+  
+  // Turn off two-factor authentication (requires the password and a code)
+  async disableTwoFactor(userId: string, password: string, code: string, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (!user.twoFactor?.enabled) {
+        return { success: false, message: 'Two-factor authentication is not enabled' };
+      }
+      
+      const isMatch = !!user.password && await bcrypt.compare(password, user.password);
+      if (!isMatch || !(await this.verifySecondFactor(user, code))) {
+        auditLogService.record({ event: 'two_factor_disable', outcome: 'failure', userId, client, details: { reason: 'invalid_credentials' } });
+        return { success: false, message: 'Invalid password or two-factor code' };
+      }
+      
+      user.set('twoFactor', {
+        enabled: false,
+        secret: '',
+        pendingSecret: '',
+        backupCodes: [],
+        lastUsedStep: -1,
+        enabledAt: null
+      });
+      await user.save();
+      auditLogService.record({ event: 'two_factor_disable', outcome: 'success', userId, client });
+      
+      return { success: true, message: 'Two-factor authentication disabled' };
+    } catch (error: unknown) {
+      console.error('Error in disableTwoFactor:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to disable two-factor authentication', error: apiError.message };
+    }
+  }
+  
+  // Replace the backup codes (requires a current code)
+  async regenerateBackupCodes(userId: string, code: string, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (!user.twoFactor?.enabled) {
+        return { success: false, message: 'Two-factor authentication is not enabled' };
+      }
+      if (!(await this.verifySecondFactor(user, code))) {
+        auditLogService.record({ event: 'backup_codes_regenerate', outcome: 'failure', userId, client, details: { reason: 'invalid_code' } });
+        return { success: false, message: 'Invalid two-factor code' };
+      }
+      
+      const backupCodes = totpService.generateBackupCodes();
+      user.set('twoFactor.backupCodes', backupCodes.hashes);
+      await user.save();
+      auditLogService.record({ event: 'backup_codes_regenerate', outcome: 'success', userId, client });
+      
+      return { success: true, backupCodes: backupCodes.codes };
+    } catch (error: unknown) {
+      console.error('Error in regenerateBackupCodes:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to regenerate backup codes', error: apiError.message };
+    }
+  }
+  
+  // Exchange a refresh token for a new access token and refresh token
+  async refresh(refreshToken: string, client: ClientInfo = {}) {
+    try {
+      // Only failures are recorded; successful refreshes happen every few minutes per client
+      const rotation = await sessionService.rotateRefreshToken(refreshToken);
+      if (!rotation.success || !rotation.userId || !rotation.sessionId) {
+        auditLogService.record({
+          event: 'token_refresh',
+          outcome: 'failure',
+          userId: rotation.userId,
+          client,
+          details: { reason: rotation.message || 'Invalid refresh token' }
+        });
+        return { success: false, message: rotation.message || 'Invalid refresh token' };
+      }
+      
+      const user = await User.findById(rotation.userId).select('email role permissions disabled');
+      if (!user) {
+        await sessionService.revokeSession(rotation.sessionId, rotation.userId, 'user_not_found');
+        return { success: false, message: 'User not found' };
+      }
+      if (user.disabled) {
+        await sessionService.revokeSession(rotation.sessionId, rotation.userId, 'account_disabled');
+        auditLogService.record({
+          event: 'token_refresh',
+          outcome: 'failure',
+          userId: rotation.userId,
+          client,
+          details: { reason: 'account_disabled' }
+        });
+        return { success: false, message: 'Account is disabled' };
+      }
+      
+      return {
+        success: true,
+        token: this.signAccessToken(user, rotation.sessionId),
+        refreshToken: rotation.refreshToken,
+        expiresIn: ACCESS_TOKEN_TTL,
+        refreshTokenExpiresAt: rotation.expiresAt
+      };
+    } catch (error: unknown) {
+      console.error('Error in refresh:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to refresh token', error: apiError.message };
+    }
+  }
+  
+  // Log out the current session
+  async logout(userId: string, sessionId: string, client: ClientInfo = {}) {
+    try {
+      await sessionService.revokeSession(sessionId, userId, 'logout');
+      auditLogService.record({ event: 'logout', outcome: 'success', userId, client });
+      return { success: true, message: 'Logged out' };
+    } catch (error: unknown) {
+      console.error('Error in logout:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to logout', error: apiError.message };
+    }
+  }
+  
+  // Log out every session of the user (all devices)
+  async logoutAll(userId: string, client: ClientInfo = {}) {
+    try {
+      const revokedSessions = await sessionService.revokeAllSessions(userId, 'logout_all');
+      const revokedApiKeys = await apiKeyService.revokeAllKeys(userId);
+      auditLogService.record({ event: 'logout_all', outcome: 'success', userId, client, details: { revokedSessions, revokedApiKeys } });
+      return { success: true, message: 'Logged out from all devices', revokedSessions, revokedApiKeys };
+    } catch (error: unknown) {
+      console.error('Error in logoutAll:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to logout from all devices', error: apiError.message };
+    }
+  }
+  
+  // Update the user's name and/or email; a new email only takes effect once verified
+  async updateProfile(userId: string, update: ProfileUpdate, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      if (update.fullName !== undefined) {
+        user.fullName = update.fullName;
+      }
+      if (update.currency !== undefined) {
+        user.set('preferences.currency', update.currency);
+      }
+      
+      let verificationSent = false;
+      const newEmail = update.email?.toLowerCase().trim();
+      if (newEmail && newEmail !== user.email) {
+        const taken = await User.exists({ email: newEmail, _id: { $ne: user._id } });
+        if (taken) {
+          return { success: false, message: 'This email is already used by another account' };
+        }
+        user.pendingEmail = newEmail;
+      }
+      
+      await user.save();
+      auditLogService.record({
+        event: 'profile_update',
+        outcome: 'success',
+        userId,
+        client,
+        details: {
+          fields: Object.keys(update).filter(field => update[field as keyof ProfileUpdate] !== undefined),
+          ...(newEmail && newEmail === user.pendingEmail ? { pendingEmail: newEmail } : {})
+        }
+      });
+      
+      if (newEmail && newEmail === user.pendingEmail) {
+        await this.sendVerificationEmail(user._id.toString(), newEmail);
+        verificationSent = true;
+        
+        // Let the current address know, in case the change was not made by its owner
+        if (user.email) {
+          await mailService.send({
+            to: user.email,
+            subject: 'Your Snix email address is changing',
+            text: `Hi ${user.fullName},\n\nA request was made to change the email address of your Snix account to ${newEmail}. The change takes effect once the new address is verified.\n\nIf you did not request this, change your password right away.`
+          });
+        }
+      }
+      
+      return {
+        success: true,
+        verificationSent,
+        user: {
+          id: user._id,
+          fullName: user.fullName,
+          email: user.email,
+          pendingEmail: user.pendingEmail,
+          emailVerified: user.emailVerified,
+          preferences: {
+            currency: user.preferences?.currency || 'usd'
+          }
+        }
+      };
+    } catch (error: unknown) {
+      console.error('Error in updateProfile:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to update profile', error: apiError.message };
+    }
+  }
+  
+  // Default currency of a user; USD if the user is unknown
+  async getPreferredCurrency(userId: string): Promise<Currency> {
+    const user = await User.findById(userId).select('preferences');
+    return (user?.preferences?.currency as Currency) || 'usd';
+  }
+  
+  // Email address of a user, or null if the user has none or has not verified it
+  async getVerifiedEmail(userId: string): Promise<string | null> {
+    const user = await User.findById(userId).select('email emailVerified');
+    return user?.email && user.emailVerified ? user.email : null;
+  }
+  
+  // Change the password and sign out every other session
+  async changePassword(userId: string, currentSessionId: string, currentPassword: string, newPassword: string, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      // Accounts created by wallet sign-in may set a first password without a current one
+      if (user.password) {
+        const isMatch = !!currentPassword && await bcrypt.compare(currentPassword, user.password);
+        if (!isMatch) {
+          auditLogService.record({ event: 'password_change', outcome: 'failure', userId, client, details: { reason: 'invalid_password' } });
+          return { success: false, message: 'Current password is incorrect' };
+        }
+      }
+      
+      // The pre-save hook hashes the new password
+      user.password = newPassword;
+      await user.save();
+      
+      // Other sessions and every API key stop working; the current session stays signed in
+      const revokedSessions = await sessionService.revokeAllSessions(userId, 'password_changed', currentSessionId);
+      const revokedApiKeys = await apiKeyService.revokeAllKeys(userId);
+      auditLogService.record({ event: 'password_change', outcome: 'success', userId, client, details: { revokedSessions, revokedApiKeys } });
+      
+      return { success: true, message: 'Password changed', revokedSessions, revokedApiKeys };
+    } catch (error: unknown) {
+      console.error('Error in changePassword:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to change password', error: apiError.message };
+    }
+  }
+  
+  // Collect everything stored about the user
+  async exportAccountData(userId: string, client: ClientInfo = {}) {
+    try {
+      const user = await User.findById(userId)
+        .select('-password -twoFactor.secret -twoFactor.pendingSecret -twoFactor.backupCodes')
+        .lean();
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      auditLogService.record({ event: 'account_export', outcome: 'success', userId, client });
+      return {
+        success: true,
+        data: {
+          exportedAt: new Date().toISOString(),
+          profile: user,
+          ...(await accountDataService.exportAll(userId))
+        }
+      };
+    } catch (error: unknown) {
+      console.error('Error in exportAccountData:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to export account data', error: apiError.message };
+    }
+  }
+  
+  // Delete the account and every record it owns. Accounts without a password confirm with a
+  // message signed by one of their verified wallets (purpose "delete_account").
+  async deleteAccount(userId: string, password: string, code: string, client: ClientInfo = {}, walletProof?: WalletProof) {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      if (user.password) {
+        const isMatch = !!password && await bcrypt.compare(password, user.password);
+        if (!isMatch) {
+          auditLogService.record({ event: 'account_delete', outcome: 'failure', userId, client, details: { reason: 'invalid_password' } });
+          return { success: false, message: 'Password is incorrect' };
+        }
+      } else {
+        if (!walletProof?.message || !walletProof.signature) {
+          return { success: false, message: 'Sign the account deletion message with one of your verified wallets' };
+        }
+        const verification = await walletAuthService.verifySignedMessage(walletProof.message, walletProof.signature, 'delete_account');
+        if (!verification.success || !verification.address) {
+          auditLogService.record({
+            event: 'account_delete',
+            outcome: 'failure',
+            userId,
+            client,
+            details: { address: verification.address, reason: verification.message }
+          });
+          return { success: false, message: verification.message || 'Wallet verification failed' };
+        }
+        // The challenge must have been issued to this account, for one of its verified wallets
+        const ownerId = await userWalletService.findVerifiedOwner(verification.address);
+        if (verification.userId !== userId || ownerId !== userId) {
+          auditLogService.record({
+            event: 'account_delete',
+            outcome: 'failure',
+            userId,
+            client,
+            details: { address: verification.address, reason: 'wallet_not_owned' }
+          });
+          return { success: false, message: 'Sign with a verified wallet of this account' };
+        }
+      }
+      if (user.twoFactor?.enabled && !(await this.verifySecondFactor(user, code))) {
+        auditLogService.record({ event: 'account_delete', outcome: 'failure', userId, client, details: { reason: 'invalid_code' } });
+        return { success: false, message: 'Invalid two-factor code' };
+      }
+      
+      const deleted = await accountDataService.deleteAll(userId);
+      await User.deleteOne({ _id: user._id });
+      
+      // The user's own events were deleted with the account; keep a record that is not tied to it
+      auditLogService.record({ event: 'account_delete', outcome: 'success', client, details: { deletedUserId: userId } });
+      
+      return { success: true, message: 'Account deleted', deleted };
+    } catch (error: unknown) {
+      console.error('Error in deleteAccount:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to delete account', error: apiError.message };
+    }
+  }
+  
+  // Admin: list and search users
+  async listUsers(options: UserSearchOptions = {}) {
+    try {
+      const page = Math.max(1, options.page || 1);
+      const limit = Math.min(100, Math.max(1, options.limit || 20));
+      
+      const filter: Record<string, any> = {};
+      if (options.query) {
+        const pattern = new RegExp(options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+        filter.$or = [{ email: pattern }, { fullName: pattern }];
+      }
+      if (options.role) {
+        filter.role = options.role;
+      }
+      if (options.disabled !== undefined) {
+        filter.disabled = options.disabled;
+      }
+      
+      const [users, total] = await Promise.all([
+        User.find(filter)
+          .select('fullName email emailVerified role permissions disabled disabledAt createdAt')
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        User.countDocuments(filter)
+      ]);
+      
+      return {
+        success: true,
+        users: users.map(user => this.formatAdminUser(user)),
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+      };
+    } catch (error: unknown) {
+      console.error('Error in listUsers:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list users', error: apiError.message };
+    }
+  }
+  
+  // Admin: get a single user with their wallets
+  async getUserForAdmin(userId: string) {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return { success: false, message: 'User not found' };
+      }
+      const user = await User.findById(userId).select('-password -twoFactor.secret -twoFactor.pendingSecret -twoFactor.backupCodes');
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      const walletList = await userWalletService.listWallets(userId);
+      return {
+        success: true,
+        user: {
+          ...this.formatAdminUser(user),
+          twoFactorEnabled: !!user.twoFactor?.enabled,
+          disabledReason: user.disabledReason,
+          wallets: walletList.wallets || []
+        }
+      };
+    } catch (error: unknown) {
+      console.error('Error in getUserForAdmin:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to get user', error: apiError.message };
+    }
+  }
+  
+  // Admin: disable or re-enable an account (disabling also ends every session)
+  async setUserDisabled(userId: string, disabled: boolean, reason: string = '', actor?: AdminActor) {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return { success: false, message: 'User not found' };
+      }
+      const user = await User.findByIdAndUpdate(
+        userId,
+        disabled
+          ? { disabled: true, disabledAt: new Date(), disabledReason: reason }
+          : { disabled: false, disabledAt: null, disabledReason: '' },
+        { new: true }
+      );
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      if (disabled) {
+        await sessionService.revokeAllSessions(userId, 'account_disabled');
+      }
+      auditLogService.record({
+        event: disabled ? 'admin_user_disable' : 'admin_user_enable',
+        outcome: 'success',
+        userId,
+        client: actor?.client,
+        details: { adminId: actor?.userId, ...(disabled ? { reason } : {}) }
+      });
+      
+      return { success: true, user: this.formatAdminUser(user) };
+    } catch (error: unknown) {
+      console.error('Error in setUserDisabled:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to update user', error: apiError.message };
+    }
+  }
+  
+  // Admin: change a user's role; their sessions are ended so new tokens carry the new claims
+  async setUserRole(userId: string, role: string, actor?: AdminActor) {
+    try {
+      if (!(ROLES as readonly string[]).includes(role)) {
+        return { success: false, message: `Role must be one of: ${ROLES.join(', ')}` };
+      }
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return { success: false, message: 'User not found' };
+      }
+      const user = await User.findByIdAndUpdate(userId, { role }, { new: true, runValidators: true });
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      await sessionService.revokeAllSessions(userId, 'role_changed');
+      auditLogService.record({
+        event: 'admin_role_change',
+        outcome: 'success',
+        userId,
+        client: actor?.client,
+        details: { adminId: actor?.userId, role }
+      });
+      
+      return { success: true, user: this.formatAdminUser(user) };
+    } catch (error: unknown) {
+      console.error('Error in setUserRole:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to update user role', error: apiError.message };
+    }
+  }
+  
+  // Admin: end every session of a user
+  async forceLogout(userId: string, actor?: AdminActor) {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return { success: false, message: 'User not found' };
+      }
+      const exists = await User.exists({ _id: userId });
+      if (!exists) {
+        return { success: false, message: 'User not found' };
+      }
+      
+      const revokedSessions = await sessionService.revokeAllSessions(userId, 'admin_force_logout');
+      const revokedApiKeys = await apiKeyService.revokeAllKeys(userId);
+      auditLogService.record({
+        event: 'admin_force_logout',
+        outcome: 'success',
+        userId,
+        client: actor?.client,
+        details: { adminId: actor?.userId, revokedSessions, revokedApiKeys }
+      });
+      return { success: true, message: 'User logged out from all devices', revokedSessions, revokedApiKeys };
+    } catch (error: unknown) {
+      console.error('Error in forceLogout:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to force logout', error: apiError.message };
+    }
+  }
+  
+  // Rebuild the email index as sparse on databases created when every user had an email;
+  // the old index counts wallet-only users as sharing a null email
+  async migrateEmailIndex() {
+    const indexes = await User.collection.indexes();
+    const emailIndex = indexes.find(index => index.name === 'email_1');
+    if (!emailIndex || emailIndex.sparse) {
+      return false;
+    }
+
+    await User.collection.dropIndex('email_1');
+    // Sparse indexes still include explicit nulls
+    await User.updateMany({ email: null }, { $unset: { email: 1 } });
+    await User.createIndexes();
+    console.log('✅ Rebuilt the users email index as sparse');
+    return true;
+  }
+
+  // Give the admin role to the accounts listed in ADMIN_EMAILS
+  async promoteConfiguredAdmins() {
+    const emails = (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+    if (emails.length === 0) {
+      return 0;
+    }
+    
+    const result = await User.updateMany({ email: { $in: emails }, role: { $ne: 'admin' } }, { role: 'admin' });
+    if (result.modifiedCount > 0) {
+      console.log(`✅ Promoted ${result.modifiedCount} configured users to admin`);
+    }
+    return result.modifiedCount;
+  }
+  
+  // Count users for the admin system status
+  async countUsers() {
+    const [total, disabled, admins] = await Promise.all([
+      User.countDocuments({}),
+      User.countDocuments({ disabled: true }),
+      User.countDocuments({ role: 'admin' })
+    ]);
+    return { total, disabled, admins };
+  }
+  
+  // Format a user for admin responses
+  private formatAdminUser(user: InstanceType<typeof User>) {
+    return {
+      id: user._id,
+      fullName: user.fullName,
+      email: user.email,
+      emailVerified: user.emailVerified,
+      role: user.role,
+      permissions: resolvePermissions(user.role, user.permissions),
+      disabled: user.disabled,
+      disabledAt: user.disabledAt,
+      createdAt: user.createdAt
+    };
+  }
+  
+  // Sign a short-lived access token bound to a session
+  private signAccessToken(user: InstanceType<typeof User>, sessionId: string) {
+    const role = (user.role || 'user') as Role;
+    return jwt.sign(
+      {
+        userId: user._id.toString(),
+        email: user.email || '',
+        sid: sessionId,
+        role,
+        permissions: resolvePermissions(role, user.permissions)
+      } as JWTPayload,
+      JWT_SECRET,
+      { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions
+    );
+  }
+  
+  // Create a new session and issue its access and refresh tokens
+  private async issueTokens(user: InstanceType<typeof User>, client: ClientInfo) {
+    const session = await sessionService.createSession(user._id.toString(), client);
+    return {
+      token: this.signAccessToken(user, session.sessionId),
+      refreshToken: session.refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL,
+      refreshTokenExpiresAt: session.expiresAt
+    };
+  }
+  
+  // Issue tokens for an authenticated user, or a challenge token if two-factor is enabled
+  private async startLogin(
+    user: InstanceType<typeof User>,
+    client: ClientInfo,
+    event: AuditEventType,
+    details: Record<string, unknown> = {}
+  ) {
+    const userId = user._id.toString();
+    if (user.disabled) {
+      auditLogService.record({ event, outcome: 'failure', userId, client, details: { ...details, reason: 'account_disabled' } });
+      return { success: false, message: 'Account is disabled' };
+    }
+    
+    // With two-factor enabled, the first factor only earns a short-lived challenge token
+    if (user.twoFactor?.enabled) {
+      auditLogService.record({ event, outcome: 'success', userId, client, details: { ...details, twoFactorPending: true } });
+      const challengeToken = jwt.sign(
+        { userId: user._id.toString(), purpose: '2fa_challenge' } as TwoFactorChallengePayload,
+        JWT_SECRET,
+        { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+      );
+      return {
+        success: true,
+        twoFactorRequired: true,
+        challengeToken,
+        expiresIn: TWO_FACTOR_CHALLENGE_TTL
+      };
+    }
+    
+    // Start a session and issue its tokens
+    const tokens = await this.issueTokens(user, client);
+    auditLogService.record({ event, outcome: 'success', userId, client, details });
+    
+    return {
+      success: true,
+      ...tokens,
+      user: {
+        id: user._id,
+        fullName: user.fullName,
+        email: user.email,
+        walletAddress: await userWalletService.getPrimaryAddress(user._id.toString())
+      }
+    };
+  }
+  
+  // Check a TOTP code or consume a backup code for a user with two-factor enabled
+  private async verifySecondFactor(user: InstanceType<typeof User>, code: string) {
+    if (!code || !user.twoFactor?.secret) {
+      return false;
+    }
+    
+    const secret = totpService.decryptSecret(user.twoFactor.secret);
+    const step = totpService.verifyCode(secret, code, user.twoFactor.lastUsedStep);
+    if (step !== null) {
+      user.set('twoFactor.lastUsedStep', step);
+      await user.save();
+      return true;
+    }
+    
+    const backupIndex = totpService.findBackupCode(code, user.twoFactor.backupCodes);
+    if (backupIndex !== -1) {
+      user.twoFactor.backupCodes.splice(backupIndex, 1);
+      await user.save();
+      return true;
+    }
+    
+    return false;
+  }
+  
+  // Email a verification link for the given address
+  private async sendVerificationEmail(userId: string, email: string) {
+    const token = await accountTokenService.issue(userId, 'email_verification', { email });
+    const link = `${APP_URL}/verify-email?token=${token}`;
+    await mailService.send({
+      to: email,
+      subject: 'Verify your Snix email address',
+      text: `Welcome to Snix!\n\nPlease confirm your email address by opening the link below:\n\n${link}`
+    });
+  }
+  
+  // Middleware to verify JWT token and that its session is still active
+  async verifyToken(req: CustomRequest, res: Response, next: NextFunction) {
+    let decoded: JWTPayload;
     try {
       const token = req.headers.authorization?.split(' ')[1];
       
@@ -233,13 +1437,173 @@ class UserController {
         return res.status(401).json({ message: 'No token provided' });
       }
       
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      req.user = { userId: decoded.userId, email: decoded.email };
-      next();
+      decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
     } catch (error: unknown) {
+      // Expired tokens are routine (clients refresh on 401); anything else may be tampering.
+      // Anyone can send a bad token, so these are throttled per IP.
+      if (!(error instanceof jwt.TokenExpiredError)) {
+        auditLogService.recordThrottled(req.ip || '', {
+          event: 'token_rejected',
+          outcome: 'failure',
+          client: getClientInfo(req),
+          details: { reason: 'invalid_token', path: req.originalUrl }
+        });
+      }
       return res.status(401).json({ message: 'Invalid token' });
     }
+    
+    try {
+      // Tokens issued before sessions existed carry no session ID and cannot be revoked
+      if (!decoded.sid || !(await sessionService.isSessionActive(decoded.sid, decoded.userId))) {
+        auditLogService.record({
+          event: 'token_rejected',
+          outcome: 'failure',
+          userId: decoded.userId,
+          client: getClientInfo(req),
+          details: { reason: 'session_revoked', path: req.originalUrl }
+        });
+        return res.status(401).json({ message: 'Session expired or revoked' });
+      }
+      
+      req.user = {
+        userId: decoded.userId,
+        email: decoded.email,
+        sessionId: decoded.sid,
+        role: decoded.role || 'user',
+        permissions: decoded.permissions || resolvePermissions('user'),
+        authType: 'session'
+      };
+      next();
+    } catch (error: unknown) {
+      console.error('Error verifying session:', error);
+      return res.status(500).json({ message: 'Failed to verify session' });
+    }
+  }
+  
+  // Middleware accepting either a Bearer JWT or a personal API key (X-API-Key header).
+  // Requests made with an API key only carry the key's scopes.
+  async authenticate(req: CustomRequest, res: Response, next: NextFunction) {
+    const key = req.get('x-api-key');
+    if (!key) {
+      return userController.verifyToken(req, res, next);
+    }
+    
+    try {
+      const apiKey = await apiKeyService.verifyKey(key, req.ip);
+      if (!apiKey) {
+        auditLogService.recordThrottled(req.ip || '', {
+          event: 'api_key_rejected',
+          outcome: 'failure',
+          client: getClientInfo(req),
+          details: { reason: 'invalid_key', prefix: key.split('_')[1] || '', path: req.originalUrl }
+        });
+        return res.status(401).json({ message: 'Invalid API key' });
+      }
+      
+      const user = await User.findById(apiKey.userId).select('email role permissions disabled');
+      if (!user || user.disabled) {
+        auditLogService.record({
+          event: 'api_key_rejected',
+          outcome: 'failure',
+          userId: apiKey.userId,
+          client: getClientInfo(req),
+          details: { reason: 'account_disabled', apiKeyId: apiKey.keyId, path: req.originalUrl }
+        });
+        return res.status(401).json({ message: 'Invalid API key' });
+      }
+      
+      // A key never grants more than its owner currently holds
+      const granted = resolvePermissions(user.role, user.permissions);
+      req.user = {
+        userId: apiKey.userId,
+        email: user.email || '',
+        role: user.role,
+        permissions: apiKey.scopes.filter(scope => granted.includes(scope)),
+        authType: 'api_key',
+        apiKeyId: apiKey.keyId
+      };
+      next();
+    } catch (error: unknown) {
+      console.error('Error verifying API key:', error);
+      return res.status(500).json({ message: 'Failed to verify API key' });
+    }
+  }
+  
+  // Middleware for public routes: sets req.user when a valid session token is sent, and
+  // otherwise lets the request through anonymously instead of rejecting it
+  async identify(req: CustomRequest, res: Response, next: NextFunction) {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return next();
+    }
+    
+    // An invalid token on a public route is treated as no token
+    try {
+      req.user = (await userController.userFromToken(token)) || undefined;
+    } catch (error: unknown) {
+      console.error('Error verifying session:', error);
+    }
+    next();
+  }
+  
+  // User of a session access token, or null if the token is invalid or its session has ended.
+  // For connections that do not go through the middlewares, such as WebSocket upgrades.
+  // Throws when the session cannot be looked up, so callers can tell an outage from a revoked session.
+  async userFromToken(token: string): Promise<CustomRequest['user'] | null> {
+    let decoded: JWTPayload;
+    try {
+      decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    } catch (error: unknown) {
+      return null;
+    }
+    
+    if (!decoded.sid || !(await sessionService.isSessionActive(decoded.sid, decoded.userId))) {
+      return null;
+    }
+    return {
+      userId: decoded.userId,
+      email: decoded.email,
+      sessionId: decoded.sid,
+      role: decoded.role || 'user',
+      permissions: decoded.permissions || resolvePermissions('user'),
+      authType: 'session'
+    };
   }
 }
 
-export const userController = new UserController(); 
\ No newline at end of file
+export const userController = new UserController();
+
+/**
+ * Middleware factory that only lets through users holding every given permission.
+ * Must run after userController.verifyToken or userController.authenticate.
+ * @param permissions Required permissions
+ */
+export const authorize = (...permissions: Permission[]) =>
+  (req: CustomRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+    
+    const granted: string[] = req.user.permissions || [];
+    const missing = permissions.filter(permission => !granted.includes(permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ message: 'Insufficient permissions', missing });
+    }
+    next();
+  }; 
+
+export const INVALID_CURRENCY_MESSAGE = `currency must be one of ${CURRENCIES.join(', ')}`;
+
+/**
+ * Currency of a price request: ?currency=, else the signed-in user's default, else USD.
+ * Routes open to anonymous users run userController.identify first.
+ * @param req Request
+ * @returns The currency, or null for an unsupported ?currency= value
+ */
+export const resolveCurrency = async (req: CustomRequest): Promise<Currency | null> => {
+  if (req.query.currency !== undefined) {
+    const currency = String(req.query.currency).toLowerCase();
+    return isCurrency(currency) ? currency : null;
+  }
+  return req.user ? userController.getPreferredCurrency(req.user.userId) : 'usd';
+};
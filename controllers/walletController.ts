@@ -1,4 +1,6 @@
-import { getWalletData, detectBlockchain } from '../services/walletService';
+import { getWalletData } from '../services/walletService';
+import { chainRegistry } from '../services/chainRegistry';
+import { Currency } from '../config/currencies';
 
 /**
  * Controller for wallet-related operations
@@ -7,22 +9,37 @@ export const walletController = {
   /**
    * Validate a wallet address
    * @param address Wallet address to validate
-   * @returns Object with validation result and blockchain type
+   * @returns Object with validation result, the default blockchain and every chain the address is valid on
    */
   validateAddress: (address: string) => {
-    const blockchain = detectBlockchain(address);
+    const chains = chainRegistry.matching(address).map(adapter => adapter.chain);
     return {
-      isValid: !!blockchain,
-      blockchain
+      isValid: chains.length > 0,
+      blockchain: chains[0] || null,
+      chains
     };
   },
+
+  /**
+   * List the chains wallets can be read on
+   * @returns Chain ids, names and native coins
+   */
+  getSupportedChains: () => ({
+    success: true,
+    chains: chainRegistry.chains().map(chain => {
+      const adapter = chainRegistry.get(chain)!;
+      return { chain: adapter.chain, name: adapter.name, nativeCoinId: adapter.nativeCoinId };
+    })
+  }),
   
   /**
    * Get wallet data
    * @param address Wallet address
+   * @param currency Currency to value the wallet in
+   * @param chain Chain to read, for addresses valid on several
    * @returns Promise with wallet data
    */
-  getWalletData: async (address: string) => {
-    return getWalletData(address);
+  getWalletData: async (address: string, currency: Currency = 'usd', chain?: string) => {
+    return getWalletData(address, currency, chain);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,207 @@
+import express from 'express';
+import { userController, authorize } from '../controllers/userController';
+import { adminController } from '../controllers/adminController';
+import { auditLogService } from '../services/auditLogService';
+import { getClientInfo } from '../services/sessionService';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+// Every admin route requires an authenticated user
+router.use(userController.verifyToken);
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    List and search users (?q=&role=&disabled=&page=&limit=)
+ * @access  Admin (users:read)
+ */
+router.get('/users', authorize(PERMISSIONS.USERS_READ), async (req, res) => {
+  try {
+    const { q, role, disabled, page, limit } = req.query;
+    const result = await userController.listUsers({
+      query: typeof q === 'string' ? q : undefined,
+      role: typeof role === 'string' ? role : undefined,
+      disabled: disabled === undefined ? undefined : disabled === 'true',
+      page: page ? parseInt(page as string, 10) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   GET /api/admin/users/:userId
+ * @desc    Get a single user
+ * @access  Admin (users:read)
+ */
+router.get('/users/:userId', authorize(PERMISSIONS.USERS_READ), async (req, res) => {
+  try {
+    const result = await userController.getUserForAdmin(req.params.userId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users/:userId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/admin/users/:userId/disable
+ * @desc    Disable an account and end all of its sessions
+ * @access  Admin (users:manage)
+ */
+router.post('/users/:userId/disable', authorize(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+  try {
+    if (req.params.userId === req.user?.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot disable your own account' });
+    }
+
+    const reason = typeof req.body.reason === 'string' ? req.body.reason : '';
+    const result = await userController.setUserDisabled(req.params.userId, true, reason, {
+      userId: req.user!.userId,
+      client: getClientInfo(req)
+    });
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users/:userId/disable:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/admin/users/:userId/enable
+ * @desc    Re-enable a disabled account
+ * @access  Admin (users:manage)
+ */
+router.post('/users/:userId/enable', authorize(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+  try {
+    const result = await userController.setUserDisabled(req.params.userId, false, '', {
+      userId: req.user!.userId,
+      client: getClientInfo(req)
+    });
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users/:userId/enable:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PUT /api/admin/users/:userId/role
+ * @desc    Change a user's role
+ * @access  Admin (users:manage)
+ */
+router.put('/users/:userId/role', authorize(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+  try {
+    const { role } = req.body;
+    if (!role) {
+      return res.status(400).json({ success: false, message: 'Role is required' });
+    }
+    if (req.params.userId === req.user?.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+    }
+
+    const result = await userController.setUserRole(req.params.userId, role, {
+      userId: req.user!.userId,
+      client: getClientInfo(req)
+    });
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users/:userId/role:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/admin/users/:userId/logout
+ * @desc    Force logout of every session of a user
+ * @access  Admin (users:manage)
+ */
+router.post('/users/:userId/logout', authorize(PERMISSIONS.USERS_MANAGE), async (req, res) => {
+  try {
+    const result = await userController.forceLogout(req.params.userId, {
+      userId: req.user!.userId,
+      client: getClientInfo(req)
+    });
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/users/:userId/logout:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   GET /api/admin/audit-log
+ * @desc    Search security events (?userId=&event=&outcome=&ip=&from=&to=&page=&limit=)
+ * @access  Admin (audit:read)
+ */
+router.get('/audit-log', authorize(PERMISSIONS.AUDIT_READ), async (req, res) => {
+  try {
+    const { userId, event, outcome, ip, from, to, page, limit } = req.query;
+    const fromDate = typeof from === 'string' ? new Date(from) : undefined;
+    const toDate = typeof to === 'string' ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ success: false, message: 'Invalid from or to date' });
+    }
+
+    const result = await auditLogService.queryEvents({
+      userId: typeof userId === 'string' ? userId : undefined,
+      event: typeof event === 'string' ? event : undefined,
+      outcome: typeof outcome === 'string' ? outcome : undefined,
+      ip: typeof ip === 'string' ? ip : undefined,
+      from: fromDate,
+      to: toDate,
+      page: page ? parseInt(page as string, 10) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined
+    });
+
+    if (!result.success) {
+      return res.status(result.error ? 500 : 400).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/audit-log:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   GET /api/admin/system/status
+ * @desc    Get process, database and account statistics
+ * @access  Admin (system:read)
+ */
+router.get('/system/status', authorize(PERMISSIONS.SYSTEM_READ), async (req, res) => {
+  try {
+    const result = await adminController.getSystemStatus();
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.error });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in /api/admin/system/status:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import express from 'express';
 import dotenv from 'dotenv';
 import axios, { AxiosError } from 'axios';
+import { userController, authorize } from '../controllers/userController';
+import { PERMISSIONS } from '../config/permissions';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -16,9 +18,9 @@ if (!process.env.TOGETHER_API_KEY) {
 /**
  * @route   GET /api/ai/credentials
  * @desc    Get Together API credentials (for accessing Llama models)
- * @access  Public (should be protected in production)
+ * @access  Private (ai:use, API keys accepted)
  */
-router.get('/credentials', async (req, res) => {
+router.get('/credentials', userController.authenticate, authorize(PERMISSIONS.AI_USE), async (req, res) => {
   try {
     console.log('Received request for AI credentials');
     
@@ -52,9 +54,9 @@ router.get('/credentials', async (req, res) => {
 /**
  * @route   GET /api/ai/test
  * @desc    Test the API key directly with Together API
- * @access  Public (for testing only)
+ * @access  Admin (ai:admin)
  */
-router.get('/test', async (req, res) => {
+router.get('/test', userController.verifyToken, authorize(PERMISSIONS.AI_ADMIN), async (req, res) => {
   try {
     console.log('Testing Together API key directly from backend...');
     
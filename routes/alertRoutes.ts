@@ -0,0 +1,222 @@
+import express, { Request } from 'express';
+import { userController } from '../controllers/userController';
+import {
+  alertService,
+  AlertChannelInput,
+  AlertUpdate,
+  ALERT_CONDITIONS,
+  ALERT_SOURCES
+} from '../services/alertService';
+import { NOTIFICATION_CHANNELS } from '../services/notificationService';
+import { isCurrency } from '../config/currencies';
+
+const router = express.Router();
+
+/**
+ * Validate the channels of a request body. Email alerts always go to the account's own
+ * address, once it has been verified.
+ * @param userId Account the alert belongs to
+ * @returns The channels, or an error message
+ */
+const parseChannels = async (value: unknown, userId: string): Promise<AlertChannelInput[] | string> => {
+  if (!Array.isArray(value)) {
+    return 'channels must be an array';
+  }
+  const channels: AlertChannelInput[] = [];
+  for (const channel of value) {
+    if (!NOTIFICATION_CHANNELS.includes(channel?.type)) {
+      return `channel type must be one of ${NOTIFICATION_CHANNELS.join(', ')}`;
+    }
+    if (channel.type === 'email') {
+      const email = await userController.getVerifiedEmail(userId);
+      if (!email) {
+        return 'Email alerts need a verified email address on the account';
+      }
+      channels.push({ type: 'email', target: email });
+    } else {
+      if (typeof channel.target !== 'string' || !channel.target.trim()) {
+        return `A target is required for ${channel.type} channels`;
+      }
+      channels.push({ type: channel.type, target: channel.target.trim() });
+    }
+  }
+  return channels;
+};
+
+/**
+ * Validate the optional rule fields shared by create and update
+ * @returns An error message, or null
+ */
+const validateRuleFields = (body: any): string | null => {
+  if (body.threshold !== undefined && (typeof body.threshold !== 'number' || !Number.isFinite(body.threshold))) {
+    return 'threshold must be a number';
+  }
+  if (body.cooldownMinutes !== undefined &&
+    (!Number.isInteger(body.cooldownMinutes) || body.cooldownMinutes < 0 || body.cooldownMinutes > 7 * 24 * 60)) {
+    return 'cooldownMinutes must be a whole number of minutes, up to one week';
+  }
+  if (body.recurring !== undefined && typeof body.recurring !== 'boolean') {
+    return 'recurring must be a boolean';
+  }
+  return null;
+};
+
+/**
+ * @route   GET /api/auth/alerts
+ * @desc    List the current user's price alerts
+ * @access  Private
+ */
+router.get('/', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await alertService.listAlerts(req.user!.userId);
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in GET /api/auth/alerts:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/alerts
+ * @desc    Create a price alert (above/below a price, or a 24h move of at least threshold %:
+ *          a rise for a positive threshold, a drop for a negative one)
+ * @access  Private
+ */
+router.post('/', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { assetId, source, condition, threshold, recurring, cooldownMinutes } = req.body;
+    const currency = typeof req.body.currency === 'string' ? req.body.currency.toLowerCase() : 'usd';
+    if (typeof assetId !== 'string' || !assetId.trim()) {
+      return res.status(400).json({ success: false, message: 'assetId is required' });
+    }
+    if (!ALERT_SOURCES.includes(source)) {
+      return res.status(400).json({ success: false, message: `source must be one of ${ALERT_SOURCES.join(', ')}` });
+    }
+    if (!ALERT_CONDITIONS.includes(condition)) {
+      return res.status(400).json({ success: false, message: `condition must be one of ${ALERT_CONDITIONS.join(', ')}` });
+    }
+    if (threshold === undefined) {
+      return res.status(400).json({ success: false, message: 'threshold is required' });
+    }
+    const ruleError = validateRuleFields(req.body);
+    if (ruleError) {
+      return res.status(400).json({ success: false, message: ruleError });
+    }
+    if (!isCurrency(currency)) {
+      return res.status(400).json({ success: false, message: 'Unsupported currency' });
+    }
+    const channels = await parseChannels(req.body.channels, req.user!.userId);
+    if (typeof channels === 'string') {
+      return res.status(400).json({ success: false, message: channels });
+    }
+
+    const result = await alertService.createAlert(req.user!.userId, {
+      assetId: assetId.trim(),
+      source,
+      condition,
+      threshold,
+      currency,
+      recurring,
+      cooldownMinutes,
+      channels
+    });
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    return res.status(201).json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/alerts:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   GET /api/auth/alerts/deliveries
+ * @desc    Delivery history of the current user's alerts (?alertId=&limit=&before=)
+ * @access  Private
+ */
+router.get('/deliveries', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const alertId = req.query.alertId as string | undefined;
+    const limit = parseInt(req.query.limit as string, 10) || 50;
+    const before = req.query.before ? new Date(req.query.before as string) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return res.status(400).json({ success: false, message: 'Invalid before date' });
+    }
+
+    const result = await alertService.listDeliveries(req.user!.userId, alertId, limit, before);
+    if (!result.success) {
+      const status = result.message === 'Alert not found' ? 404 : 500;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in GET /api/auth/alerts/deliveries:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PATCH /api/auth/alerts/:alertId
+ * @desc    Change an alert's threshold, channels, recurrence or cooldown, or pause/resume it
+ * @access  Private
+ */
+router.patch('/:alertId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const ruleError = validateRuleFields(req.body);
+    if (ruleError) {
+      return res.status(400).json({ success: false, message: ruleError });
+    }
+    if (req.body.active !== undefined && typeof req.body.active !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'active must be a boolean' });
+    }
+
+    const update: AlertUpdate = {};
+    for (const field of ['threshold', 'recurring', 'cooldownMinutes', 'active'] as const) {
+      if (req.body[field] !== undefined) update[field] = req.body[field];
+    }
+    if (req.body.channels !== undefined) {
+      const channels = await parseChannels(req.body.channels, req.user!.userId);
+      if (typeof channels === 'string') {
+        return res.status(400).json({ success: false, message: channels });
+      }
+      update.channels = channels;
+    }
+    if (Object.keys(update).length === 0) {
+      return res.status(400).json({ success: false, message: 'Nothing to update' });
+    }
+
+    const result = await alertService.updateAlert(req.user!.userId, req.params.alertId, update);
+    if (!result.success) {
+      const status = result.message === 'Alert not found' ? 404 : 400;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in PATCH /api/auth/alerts/:alertId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/alerts/:alertId
+ * @desc    Delete an alert
+ * @access  Private
+ */
+router.delete('/:alertId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await alertService.deleteAlert(req.user!.userId, req.params.alertId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in DELETE /api/auth/alerts/:alertId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
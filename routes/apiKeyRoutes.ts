@@ -0,0 +1,92 @@
+import express, { Request } from 'express';
+import { userController } from '../controllers/userController';
+import { apiKeyService } from '../services/apiKeyService';
+import { auditLogService } from '../services/auditLogService';
+import { getClientInfo } from '../services/sessionService';
+import { API_KEY_SCOPES } from '../config/permissions';
+
+const router = express.Router();
+
+// Keys can only be managed from a logged-in session, never with another API key
+router.use(userController.verifyToken);
+
+/**
+ * @route   GET /api/auth/api-keys
+ * @desc    List the current user's API keys
+ * @access  Private
+ */
+router.get('/', async (req: Request, res) => {
+  try {
+    const result = await apiKeyService.listKeys(req.user!.userId);
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.message });
+    }
+    return res.json({ ...result, availableScopes: API_KEY_SCOPES });
+  } catch (err) {
+    console.error('Server error in GET /api/auth/api-keys:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/api-keys
+ * @desc    Create an API key; the key is only returned in this response
+ * @access  Private
+ */
+router.post('/', async (req: Request, res) => {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ success: false, message: 'Name is required' });
+    }
+    if (!Array.isArray(scopes)) {
+      return res.status(400).json({ success: false, message: 'Scopes must be an array' });
+    }
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+      return res.status(400).json({ success: false, message: 'expiresInDays must be a positive integer' });
+    }
+
+    const result = await apiKeyService.createKey(req.user!.userId, { name, scopes, expiresInDays });
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    auditLogService.record({
+      event: 'api_key_create',
+      outcome: 'success',
+      userId: req.user!.userId,
+      client: getClientInfo(req),
+      details: { apiKeyId: result.apiKey?.id, prefix: result.apiKey?.prefix, scopes: result.apiKey?.scopes }
+    });
+    return res.status(201).json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/api-keys:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/api-keys/:keyId
+ * @desc    Revoke an API key
+ * @access  Private
+ */
+router.delete('/:keyId', async (req: Request, res) => {
+  try {
+    const result = await apiKeyService.revokeKey(req.user!.userId, req.params.keyId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    auditLogService.record({
+      event: 'api_key_revoke',
+      outcome: 'success',
+      userId: req.user!.userId,
+      client: getClientInfo(req),
+      details: { apiKeyId: req.params.keyId, prefix: result.apiKey?.prefix }
+    });
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in DELETE /api/auth/api-keys/:keyId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
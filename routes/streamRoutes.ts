@@ -0,0 +1,308 @@
+import http from 'http';
+import { Duplex } from 'stream';
+import express, { NextFunction, Request, Response } from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
+import { userController, resolveCurrency, INVALID_CURRENCY_MESSAGE } from '../controllers/userController';
+import { cryptoController } from '../controllers/cryptoController';
+import { walletController } from '../controllers/walletController';
+import {
+  streamService,
+  StreamConnection,
+  StreamSubscription,
+  StreamTopic,
+  STREAM_TOPICS,
+  MAX_STREAM_SUBSCRIPTIONS
+} from '../services/streamService';
+import { cacheService } from '../services/cacheService';
+import { PERMISSIONS, Permission } from '../config/permissions';
+import { CACHE_POLICIES } from '../config/cache';
+import { Currency, isCurrency } from '../config/currencies';
+
+const router = express.Router();
+
+// Path of the stream; WebSocket upgrades and SSE requests share it
+export const STREAM_PATH = '/api/stream';
+
+// Interval between heartbeats (WebSocket pings, SSE comments)
+const HEARTBEAT_SECONDS = Number(process.env.STREAM_HEARTBEAT_SECONDS || 30);
+
+// Largest WebSocket message accepted from a client
+const MAX_MESSAGE_BYTES = 4096;
+
+// Providers a coin subscription can prefer; DEX pairs are subscribed as the "pair" topic
+const COIN_SOURCES = ['coinpaprika', 'coingecko'];
+
+// Permission needed for each topic
+const TOPIC_PERMISSIONS: Record<StreamTopic, Permission> = {
+  coin: PERMISSIONS.MARKET_READ,
+  pair: PERMISSIONS.MARKET_READ,
+  wallet: PERMISSIONS.WALLET_READ
+};
+
+// Coins and pairs come from the same cache entries as GET /api/crypto/details/:coinId,
+// so streams and polling clients share upstream calls
+const loadDetails = (coinId: string, source: string | undefined, currency: Currency) =>
+  cacheService.wrap(
+    `crypto:details:${coinId}:${source || ''}:${currency}`,
+    CACHE_POLICIES.details,
+    () => cryptoController.getCoinDetails(coinId, source, currency),
+    result => result.success
+  ).then(cached => cached.value);
+
+streamService.registerTopic('coin', {
+  intervalSeconds: Number(process.env.STREAM_QUOTE_POLL_SECONDS || 15),
+  load: ({ id, source }, currency) => loadDetails(id, source, currency)
+});
+
+streamService.registerTopic('pair', {
+  intervalSeconds: Number(process.env.STREAM_QUOTE_POLL_SECONDS || 15),
+  load: ({ id }, currency) => loadDetails(id, 'dexscreener', currency)
+});
+
+streamService.registerTopic('wallet', {
+  intervalSeconds: Number(process.env.STREAM_WALLET_POLL_SECONDS || 60),
+  load: ({ id }, currency) => walletController.getWalletData(id, currency)
+});
+
+/**
+ * Validate a subscription
+ * @param value Subscription from a client message or query string
+ * @param permissions Permissions of the user subscribing
+ * @returns The subscription, or an error message
+ */
+const parseSubscription = (value: any, permissions: string[]): StreamSubscription | string => {
+  const topic = value?.topic;
+  const id = typeof value?.id === 'string' ? value.id.trim() : '';
+  const source = typeof value?.source === 'string' && value.source.trim() ? value.source.trim().toLowerCase() : undefined;
+  if (!STREAM_TOPICS.includes(topic)) {
+    return `topic must be one of ${STREAM_TOPICS.join(', ')}`;
+  }
+  if (!id) {
+    return 'id is required';
+  }
+  if (!permissions.includes(TOPIC_PERMISSIONS[topic as StreamTopic])) {
+    return `Missing permission ${TOPIC_PERMISSIONS[topic as StreamTopic]}`;
+  }
+  if (topic === 'coin' && source && !COIN_SOURCES.includes(source)) {
+    return `source must be one of ${COIN_SOURCES.join(', ')}`;
+  }
+  if (topic === 'wallet' && !walletController.validateAddress(id).isValid) {
+    return `Invalid wallet address: ${id}`;
+  }
+  return topic === 'coin' ? { topic, id, source } : { topic, id };
+};
+
+/**
+ * Subscriptions of an SSE request: ?coins=, ?pairs= and ?wallets= (comma-separated),
+ * with ?source= applying to every coin
+ * @returns The subscriptions, or an error message
+ */
+const parseQuerySubscriptions = (query: Request['query'], permissions: string[]): StreamSubscription[] | string => {
+  const list = (value: unknown) => (typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : []);
+  const requested = [
+    ...list(query.coins).map(id => ({ topic: 'coin', id, source: query.source })),
+    ...list(query.pairs).map(id => ({ topic: 'pair', id })),
+    ...list(query.wallets).map(id => ({ topic: 'wallet', id }))
+  ];
+  if (requested.length === 0) {
+    return 'Subscribe with ?coins=, ?pairs= or ?wallets=';
+  }
+  if (requested.length > MAX_STREAM_SUBSCRIPTIONS) {
+    return `At most ${MAX_STREAM_SUBSCRIPTIONS} subscriptions per stream`;
+  }
+  const parsed = requested.map(item => parseSubscription(item, permissions));
+  const invalid = parsed.find((item): item is string => typeof item === 'string');
+  return invalid || (parsed as StreamSubscription[]);
+};
+
+/**
+ * Whether a stream's token and session are still valid. A failed lookup (e.g. the database is
+ * unreachable) counts as valid, so an outage does not close every open stream; the next
+ * heartbeat checks again.
+ */
+const sessionStillValid = async (token: string) => {
+  try {
+    return !!(await userController.userFromToken(token));
+  } catch (error) {
+    console.error('Error checking stream session:', (error as Error).message);
+    return true;
+  }
+};
+
+/**
+ * EventSource cannot set headers, so an SSE client may pass its access token as ?token=
+ */
+const tokenFromQuery = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/stream
+ * @desc    Server-sent events fallback for clients without WebSocket. Subscriptions are
+ *          fixed for the life of the stream; reconnect to change them. Each message is
+ *          sent as an event named after its type.
+ * @access  Private
+ */
+router.get('/', tokenFromQuery, userController.verifyToken, async (req: Request, res) => {
+  try {
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+    const subscriptions = parseQuerySubscriptions(req.query, req.user!.permissions || []);
+    if (typeof subscriptions === 'string') {
+      return res.status(400).json({ success: false, error: subscriptions });
+    }
+
+    const connection = streamService.connect(req.user!.userId, currency, message => {
+      res.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+    });
+    if (typeof connection === 'string') {
+      return res.status(429).json({ success: false, error: connection });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Keep reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    // The session is checked again on every heartbeat; the stream ends once the token has
+    // expired or the session was revoked (signing out, password change, disabled account)
+    const token = req.headers.authorization!.split(' ')[1];
+    const heartbeat = setInterval(async () => {
+      if (!(await sessionStillValid(token))) {
+        clearInterval(heartbeat);
+        res.end();
+        return;
+      }
+      res.write(': heartbeat\n\n');
+    }, HEARTBEAT_SECONDS * 1000);
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      streamService.disconnect(connection);
+    });
+
+    subscriptions.forEach(subscription => {
+      connection.send({ type: 'subscribed', ...subscription });
+      streamService.subscribe(connection, subscription);
+    });
+  } catch (err) {
+    console.error('Server error in GET /api/stream:', err);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, error: 'Failed to open stream' });
+    }
+  }
+});
+
+/**
+ * Handle a message from a WebSocket client:
+ * { "action": "subscribe" | "unsubscribe", "topic": "coin" | "pair" | "wallet", "id": "...", "source"?: "..." }
+ */
+const handleMessage = (connection: StreamConnection, permissions: string[], raw: string) => {
+  let message: any;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    return connection.send({ type: 'error', error: 'Messages must be JSON' });
+  }
+  if (message?.action !== 'subscribe' && message?.action !== 'unsubscribe') {
+    return connection.send({ type: 'error', error: 'action must be subscribe or unsubscribe' });
+  }
+  const subscription = parseSubscription(message, permissions);
+  if (typeof subscription === 'string') {
+    return connection.send({ type: 'error', topic: message.topic, id: message.id, error: subscription });
+  }
+
+  if (message.action === 'unsubscribe') {
+    streamService.unsubscribe(connection, subscription);
+    return connection.send({ type: 'unsubscribed', ...subscription });
+  }
+  // Acknowledged before subscribing, so the ack arrives before any cached value
+  connection.send({ type: 'subscribed', ...subscription });
+  const error = streamService.subscribe(connection, subscription);
+  if (error) {
+    connection.send({ type: 'error', topic: subscription.topic, id: subscription.id, error });
+  }
+};
+
+/**
+ * Refuse a WebSocket upgrade with a plain HTTP response
+ */
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+};
+
+/**
+ * Accept WebSocket connections on STREAM_PATH. Clients authenticate with a Bearer access
+ * token or ?token=, and choose a currency with ?currency= (else their default).
+ * @param server HTTP server the app listens on
+ */
+export const attachStreamServer = (server: http.Server) => {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+  const tokens = new WeakMap<WebSocket, string>();
+
+  server.on('upgrade', async (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== STREAM_PATH) {
+        return rejectUpgrade(socket, 404, 'Not Found');
+      }
+      const token = req.headers.authorization?.split(' ')[1] || url.searchParams.get('token') || '';
+      const user = token ? await userController.userFromToken(token) : null;
+      if (!user) {
+        return rejectUpgrade(socket, 401, 'Unauthorized');
+      }
+      const requestedCurrency = url.searchParams.get('currency')?.toLowerCase();
+      if (requestedCurrency !== undefined && !isCurrency(requestedCurrency)) {
+        return rejectUpgrade(socket, 400, 'Bad Request');
+      }
+      const currency = requestedCurrency || await userController.getPreferredCurrency(user.userId);
+      if (!streamService.canConnect(user.userId)) {
+        return rejectUpgrade(socket, 429, 'Too Many Requests');
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => {
+        const connection = streamService.connect(user.userId, currency, message => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+        });
+        if (typeof connection === 'string') {
+          return ws.close(1013, connection);
+        }
+        alive.set(ws, true);
+        tokens.set(ws, token);
+        ws.on('pong', () => alive.set(ws, true));
+        ws.on('message', data => handleMessage(connection, user.permissions || [], data.toString()));
+        ws.on('close', () => streamService.disconnect(connection));
+        ws.on('error', error => console.error('Stream WebSocket error:', error.message));
+      });
+    } catch (error) {
+      console.error('Error upgrading stream connection:', error);
+      rejectUpgrade(socket, 500, 'Internal Server Error');
+    }
+  });
+
+  // Drop clients that did not answer the last ping, or whose token expired or session was revoked
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(async ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+      if (!(await sessionStillValid(tokens.get(ws) || ''))) {
+        ws.close(1008, 'Session expired');
+      }
+    });
+  }, HEARTBEAT_SECONDS * 1000);
+  heartbeat.unref();
+  server.on('close', () => clearInterval(heartbeat));
+};
+
+export default router;
@@ -0,0 +1,135 @@
+import express, { Request } from 'express';
+import { userController, authorize } from '../controllers/userController';
+import { userWalletService, LAST_SIGN_IN_WALLET_MESSAGE } from '../services/userWalletService';
+import { auditLogService } from '../services/auditLogService';
+import { getClientInfo } from '../services/sessionService';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+/**
+ * @route   GET /api/auth/wallets
+ * @desc    List the wallets linked to the current user
+ * @access  Private (wallet:read, API keys accepted)
+ */
+router.get('/', userController.authenticate, authorize(PERMISSIONS.WALLET_READ), async (req: Request, res) => {
+  try {
+    const result = await userWalletService.listWallets(req.user!.userId);
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in GET /api/auth/wallets:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/wallets
+ * @desc    Add a wallet (unverified) to the current user
+ * @access  Private
+ */
+router.post('/', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { address, label, makePrimary } = req.body;
+    if (!address) {
+      return res.status(400).json({ success: false, message: 'Wallet address is required' });
+    }
+
+    const result = await userWalletService.addWallet(req.user!.userId, address, {
+      label: typeof label === 'string' ? label : undefined,
+      makePrimary: !!makePrimary
+    });
+    auditLogService.record({
+      event: 'wallet_add',
+      outcome: result.success ? 'success' : 'failure',
+      userId: req.user!.userId,
+      client: getClientInfo(req),
+      details: { address: result.wallet?.address || address, makePrimary: !!makePrimary, ...(result.success ? {} : { reason: result.message }) }
+    });
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    return res.status(201).json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/wallets:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PATCH /api/auth/wallets/:walletId
+ * @desc    Rename a wallet
+ * @access  Private
+ */
+router.patch('/:walletId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { label } = req.body;
+    if (typeof label !== 'string') {
+      return res.status(400).json({ success: false, message: 'Label is required' });
+    }
+
+    const result = await userWalletService.renameWallet(req.user!.userId, req.params.walletId, label);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in PATCH /api/auth/wallets/:walletId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/wallets/:walletId/primary
+ * @desc    Make a wallet the primary wallet
+ * @access  Private
+ */
+router.post('/:walletId/primary', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await userWalletService.setPrimaryWallet(req.user!.userId, req.params.walletId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    auditLogService.record({
+      event: 'wallet_primary_change',
+      outcome: 'success',
+      userId: req.user!.userId,
+      client: getClientInfo(req),
+      details: { walletId: req.params.walletId }
+    });
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/wallets/:walletId/primary:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/wallets/:walletId
+ * @desc    Remove a wallet
+ * @access  Private
+ */
+router.delete('/:walletId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await userWalletService.removeWallet(req.user!.userId, req.params.walletId);
+    if (!result.success) {
+      const status = result.message === LAST_SIGN_IN_WALLET_MESSAGE ? 400 : 404;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    auditLogService.record({
+      event: 'wallet_remove',
+      outcome: 'success',
+      userId: req.user!.userId,
+      client: getClientInfo(req),
+      details: { walletId: req.params.walletId }
+    });
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in DELETE /api/auth/wallets/:walletId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,232 @@
+import express, { Request } from 'express';
+import { userController, authorize, resolveCurrency, INVALID_CURRENCY_MESSAGE } from '../controllers/userController';
+import { watchlistService, WatchlistItemInput, WATCHLIST_SOURCES } from '../services/watchlistService';
+import { PERMISSIONS } from '../config/permissions';
+
+const router = express.Router();
+
+/**
+ * Validate an item from a request body
+ * @returns The item, or an error message
+ */
+const parseItem = (body: any): WatchlistItemInput | string => {
+  const { assetId, source } = body || {};
+  if (typeof assetId !== 'string' || !assetId.trim()) {
+    return 'assetId is required';
+  }
+  if (!WATCHLIST_SOURCES.includes(source)) {
+    return `source must be one of ${WATCHLIST_SOURCES.join(', ')}`;
+  }
+  return { assetId: assetId.trim(), source };
+};
+
+/**
+ * Validate a list of IDs from a request body
+ */
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+/**
+ * @route   GET /api/auth/watchlists
+ * @desc    List the current user's watchlists, without quotes
+ * @access  Private (market:read, API keys accepted)
+ */
+router.get('/', userController.authenticate, authorize(PERMISSIONS.MARKET_READ), async (req: Request, res) => {
+  try {
+    const result = await watchlistService.listWatchlists(req.user!.userId);
+    if (!result.success) {
+      return res.status(500).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in GET /api/auth/watchlists:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/watchlists
+ * @desc    Create a watchlist, optionally with items
+ * @access  Private
+ */
+router.post('/', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { name, items = [] } = req.body;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ success: false, message: 'Name is required' });
+    }
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ success: false, message: 'items must be an array' });
+    }
+    const parsed = items.map(parseItem);
+    const invalid = parsed.find((item): item is string => typeof item === 'string');
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const result = await watchlistService.createWatchlist(req.user!.userId, name, parsed as WatchlistItemInput[]);
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    return res.status(201).json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/watchlists:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PUT /api/auth/watchlists/order
+ * @desc    Reorder the current user's watchlists
+ * @access  Private
+ */
+router.put('/order', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { watchlistIds } = req.body;
+    if (!isIdList(watchlistIds)) {
+      return res.status(400).json({ success: false, message: 'watchlistIds must be an array of IDs' });
+    }
+
+    const result = await watchlistService.reorderWatchlists(req.user!.userId, watchlistIds);
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in PUT /api/auth/watchlists/order:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   GET /api/auth/watchlists/:watchlistId
+ * @desc    Get a watchlist with live quotes (?currency= or the user's default)
+ * @access  Private (market:read, API keys accepted)
+ */
+router.get('/:watchlistId', userController.authenticate, authorize(PERMISSIONS.MARKET_READ), async (req: Request, res) => {
+  try {
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, message: INVALID_CURRENCY_MESSAGE });
+    }
+
+    const result = await watchlistService.getWatchlist(req.user!.userId, req.params.watchlistId, currency);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in GET /api/auth/watchlists/:watchlistId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PATCH /api/auth/watchlists/:watchlistId
+ * @desc    Rename a watchlist
+ * @access  Private
+ */
+router.patch('/:watchlistId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { name } = req.body;
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ success: false, message: 'Name is required' });
+    }
+
+    const result = await watchlistService.renameWatchlist(req.user!.userId, req.params.watchlistId, name);
+    if (!result.success) {
+      const status = result.message === 'Watchlist not found' ? 404 : 400;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in PATCH /api/auth/watchlists/:watchlistId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/watchlists/:watchlistId
+ * @desc    Delete a watchlist
+ * @access  Private
+ */
+router.delete('/:watchlistId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await watchlistService.deleteWatchlist(req.user!.userId, req.params.watchlistId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in DELETE /api/auth/watchlists/:watchlistId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   POST /api/auth/watchlists/:watchlistId/items
+ * @desc    Add a coin (CoinPaprika/CoinGecko id) or DEX pair (Dexscreener) to a watchlist
+ * @access  Private
+ */
+router.post('/:watchlistId/items', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const item = parseItem(req.body);
+    if (typeof item === 'string') {
+      return res.status(400).json({ success: false, message: item });
+    }
+
+    const result = await watchlistService.addItem(req.user!.userId, req.params.watchlistId, item);
+    if (!result.success) {
+      const status = result.message === 'Watchlist not found' ? 404 : 400;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    return res.status(201).json(result);
+  } catch (err) {
+    console.error('Server error in POST /api/auth/watchlists/:watchlistId/items:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   PUT /api/auth/watchlists/:watchlistId/items/order
+ * @desc    Reorder the items of a watchlist
+ * @access  Private
+ */
+router.put('/:watchlistId/items/order', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const { itemIds } = req.body;
+    if (!isIdList(itemIds)) {
+      return res.status(400).json({ success: false, message: 'itemIds must be an array of IDs' });
+    }
+
+    const result = await watchlistService.reorderItems(req.user!.userId, req.params.watchlistId, itemIds);
+    if (!result.success) {
+      const status = result.message === 'Watchlist not found' ? 404 : 400;
+      return res.status(status).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in PUT /api/auth/watchlists/:watchlistId/items/order:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/watchlists/:watchlistId/items/:itemId
+ * @desc    Remove an item from a watchlist
+ * @access  Private
+ */
+router.delete('/:watchlistId/items/:itemId', userController.verifyToken, async (req: Request, res) => {
+  try {
+    const result = await watchlistService.removeItem(req.user!.userId, req.params.watchlistId, req.params.itemId);
+    if (!result.success) {
+      return res.status(404).json({ success: false, message: result.message });
+    }
+    return res.json(result);
+  } catch (err) {
+    console.error('Server error in DELETE /api/auth/watchlists/:watchlistId/items/:itemId:', err);
+    return res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
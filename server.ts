@@ -1,12 +1,34 @@
+import crypto from 'crypto';
 import express, { Request } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import mongoose from 'mongoose';
 import { walletController } from './controllers/walletController';
-import { cryptoController } from './controllers/cryptoController';
-import { userController } from './controllers/userController';
+import { cryptoController, decodeSearchCursor, IndicatorRange, QuoteRequestItem, QUOTE_NOT_FOUND } from './controllers/cryptoController';
+import { userController, authorize, resolveCurrency, INVALID_CURRENCY_MESSAGE } from './controllers/userController';
 import newsRoutes from './routes/newsRoutes';
 import aiRoutes from './routes/aiRoutes';
+import userWalletRoutes from './routes/userWalletRoutes';
+import adminRoutes from './routes/adminRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import watchlistRoutes from './routes/watchlistRoutes';
+import alertRoutes from './routes/alertRoutes';
+import streamRoutes, { attachStreamServer, STREAM_PATH } from './routes/streamRoutes';
+import { userWalletService } from './services/userWalletService';
+import { getClientInfo } from './services/sessionService';
+import { rateLimit, rateLimitService, sendTooManyRequests } from './services/rateLimitService';
+import { auditLogService } from './services/auditLogService';
+import { alertService } from './services/alertService';
+import { priceStoreService } from './services/priceStoreService';
+import { assetRegistryService, REGISTRY_CHAINS } from './services/assetRegistryService';
+import { marketOverviewService, OVERVIEW_CHAINS, OVERVIEW_SECTIONS, OVERVIEW_SECTION_SIZE, OverviewSection } from './services/marketOverviewService';
+import { cacheService, setCacheHeaders } from './services/cacheService';
+import { CANDLE_INTERVAL_MS, CANDLE_INTERVALS, candleStart } from './services/marketData/candles';
+import { DEFAULT_INDICATOR_PARAMS, IndicatorName, IndicatorSpec, INDICATOR_NAMES, indicatorKey } from './services/marketData/indicators';
+import { CandleInterval, MarketDataError, MarketDataProviderName, TokenChain } from './services/marketData/types';
+import { PERMISSIONS } from './config/permissions';
+import { CACHE_POLICIES } from './config/cache';
+import { isCurrency } from './config/currencies';
 
 // Define custom interface to extend Express Request
 interface CustomRequest extends Request {
@@ -31,6 +53,38 @@ mongoose.connect(MONGODB_URI)
   .then(() => {
     console.log('✅ Successfully connected to MongoDB!');
     console.log(`🔗 Using MongoDB URI: ${MONGODB_URI.replace(/\/\/(.+?)@/, '//****:****@')}`);
+    
+    // Move single wallet addresses stored on users into the wallets collection
+    userWalletService.migrateLegacyWalletAddresses()
+      .catch(err => console.error('❌ Failed to migrate legacy wallet addresses:', err));
+    
+    // Make the email index sparse so several wallet-only users can have no email
+    userController.migrateEmailIndex()
+      .catch(err => console.error('❌ Failed to migrate the email index:', err));
+    
+    // Grant the admin role to the accounts listed in ADMIN_EMAILS
+    userController.promoteConfiguredAdmins()
+      .catch(err => console.error('❌ Failed to promote configured admins:', err));
+    
+    // Check price alerts in the background; ALERT_EVALUATOR=off disables it on this instance
+    if (process.env.ALERT_EVALUATOR !== 'off') {
+      alertService.startEvaluator(Number(process.env.ALERT_EVALUATION_INTERVAL_SECONDS || 60));
+    }
+    
+    // Sample prices of watched and held assets into the local price history; PRICE_COLLECTOR=off disables it
+    if (process.env.PRICE_COLLECTOR !== 'off') {
+      priceStoreService.startCollector(Number(process.env.PRICE_COLLECTOR_INTERVAL_SECONDS || 300));
+    }
+    
+    // Keep the asset registry seeded from the provider coin lists; ASSET_REGISTRY_SEED=off disables it
+    if (process.env.ASSET_REGISTRY_SEED !== 'off') {
+      assetRegistryService.startSeeder(Number(process.env.ASSET_REGISTRY_REFRESH_HOURS || 24));
+    }
+    
+    // Rebuild the market overview snapshot in the background; MARKET_OVERVIEW_REFRESH=off disables it
+    if (process.env.MARKET_OVERVIEW_REFRESH !== 'off') {
+      marketOverviewService.startScheduler(Number(process.env.MARKET_OVERVIEW_REFRESH_SECONDS || 120));
+    }
   })
   .catch(err => {
     console.error('❌ Failed to connect to MongoDB:', err);
@@ -41,11 +95,17 @@ mongoose.connect(MONGODB_URI)
 const app = express();
 const PORT = Number(process.env.PORT || 3000); // Ensure PORT is a number
 
+// Behind a reverse proxy, take the client IP from X-Forwarded-For (needed for per-IP limits)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(trustProxy) ? process.env.TRUST_PROXY : trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: '*', // Allow all origins in development
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
 }));
 app.use(express.json());
 
@@ -76,44 +136,460 @@ app.use('/api/news', newsRoutes);
 // AI API routes
 app.use('/api/ai', aiRoutes);
 
+// Admin API routes
+app.use('/api/admin', adminRoutes);
+
 // Crypto routes
-app.get('/api/crypto/search', async (req, res) => {
+// Providers a quote or search result can come from
+const QUOTE_SOURCES: MarketDataProviderName[] = ['coinpaprika', 'coingecko', 'dexscreener'];
+
+// Page size of /api/crypto/search results
+const DEFAULT_SEARCH_PAGE = 20;
+const MAX_SEARCH_PAGE = 50;
+
+app.get('/api/crypto/search', userController.identify, async (req: CustomRequest, res) => {
   try {
     const query = req.query.q as string;
-    const result = await cryptoController.searchCoins(query);
-    res.json(result);
+    const chain = (req.query.chain as string | undefined)?.trim().toLowerCase() || undefined;
+    const source = (req.query.source as string | undefined)?.trim().toLowerCase() || undefined;
+    if (source && !QUOTE_SOURCES.includes(source as MarketDataProviderName)) {
+      return res.status(400).json({ success: false, error: `source must be one of ${QUOTE_SOURCES.join(', ')}` });
+    }
+    const minLiquidity = req.query.minLiquidity !== undefined ? Number(req.query.minLiquidity) : undefined;
+    if (minLiquidity !== undefined && !(minLiquidity >= 0)) {
+      return res.status(400).json({ success: false, error: 'minLiquidity must be a non-negative number' });
+    }
+    const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_SEARCH_PAGE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_PAGE) {
+      return res.status(400).json({ success: false, error: `limit must be an integer between 1 and ${MAX_SEARCH_PAGE}` });
+    }
+    const offset = req.query.cursor ? decodeSearchCursor(req.query.cursor as string) : 0;
+    if (offset === null) {
+      return res.status(400).json({ success: false, error: 'Invalid cursor' });
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+    // Every ranked result is cached; filters and pages are applied per request
+    const cached = await cacheService.wrap(
+      `crypto:search:${(query || '').trim().toLowerCase()}:${currency}`,
+      CACHE_POLICIES.search,
+      () => cryptoController.searchCoins(query, currency),
+      // Results missing a bucket because a provider failed are not kept
+      result => result.success && !!result.providers?.memeAndTrendingCoins && !!result.providers?.majorCoins
+    );
+    setCacheHeaders(res, cached);
+    res.json(cryptoController.pageSearchResults(cached.value, { chain, minLiquidity, source, offset, limit }));
   } catch (error) {
     console.error('Error in /api/crypto/search:', error);
     res.status(500).json({ success: false, error: 'Failed to search coins' });
   }
 });
 
-app.get('/api/crypto/details/:coinId', async (req, res) => {
+app.get('/api/crypto/details/:coinId', userController.identify, async (req: CustomRequest, res) => {
   try {
     const coinId = req.params.coinId;
-    const source = req.query.source as string || 'coingecko'; // Default to coingecko
-    const result = await cryptoController.getCoinDetails(coinId, source);
-    res.json(result);
+    const source = req.query.source as string | undefined; // Provider to try first; "dexscreener" for DEX pairs
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+    const cached = await cacheService.wrap(
+      `crypto:details:${coinId}:${source || ''}:${currency}`,
+      CACHE_POLICIES.details,
+      () => cryptoController.getCoinDetails(coinId, source, currency),
+      result => result.success
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
   } catch (error) {
     console.error(`Error in /api/crypto/details/${req.params.coinId}:`, error);
     res.status(500).json({ success: false, error: 'Failed to get coin details' });
   }
 });
 
-app.get('/api/crypto/price-history/:coinId', async (req, res) => {
+app.get('/api/crypto/price-history/:coinId', userController.identify, async (req: CustomRequest, res) => {
   try {
     const coinId = req.params.coinId;
     const days = req.query.days as string || '7';
-    const result = await cryptoController.getPriceHistory(coinId, days);
-    res.json(result);
+    const source = req.query.source as string | undefined;
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+    const cached = await cacheService.wrap(
+      `crypto:price-history:${coinId}:${days}:${source || ''}:${currency}`,
+      CACHE_POLICIES.priceHistory,
+      () => cryptoController.getPriceHistory(coinId, days, source, currency),
+      result => result.success
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
   } catch (error) {
     console.error(`Error in /api/crypto/price-history/${req.params.coinId}:`, error);
     res.status(500).json({ success: false, error: 'Failed to get price history' });
   }
 });
 
+// Most candles returned by one OHLCV request, and the default when no range is given
+const MAX_CANDLES = 1000;
+const DEFAULT_CANDLES = 100;
+
+/**
+ * Parse a query timestamp given as ISO date, Unix seconds or milliseconds
+ */
+const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value !== 'string' || value === '') return null;
+  if (/^\d+$/.test(value)) {
+    const number = Number(value);
+    return number < 1e12 ? number * 1000 : number;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : date;
+};
+
+app.get('/api/crypto/ohlcv/:coinId', userController.identify, async (req: CustomRequest, res) => {
+  try {
+    const coinId = req.params.coinId;
+    const interval = (req.query.interval as string || '1h') as CandleInterval;
+    const source = req.query.source as string | undefined; // "dexscreener" for DEX pairs
+    if (!CANDLE_INTERVALS.includes(interval)) {
+      return res.status(400).json({ success: false, error: `interval must be one of ${CANDLE_INTERVALS.join(', ')}` });
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+
+    const to = req.query.to ? parseTimestamp(req.query.to) : Date.now();
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const from = req.query.from ? parseTimestamp(req.query.from) : to !== null ? to - DEFAULT_CANDLES * intervalMs : null;
+    if (from === null || to === null) {
+      return res.status(400).json({ success: false, error: 'from and to must be ISO dates or Unix timestamps' });
+    }
+    if (from >= to) {
+      return res.status(400).json({ success: false, error: 'from must be before to' });
+    }
+    if ((to - from) / intervalMs > MAX_CANDLES) {
+      return res.status(400).json({ success: false, error: `Range exceeds ${MAX_CANDLES} ${interval} candles` });
+    }
+
+    // Align to candle boundaries so repeated requests share a cache entry
+    const rangeStart = candleStart(from, interval);
+    const rangeEnd = candleStart(to, interval);
+    const cached = await cacheService.wrap(
+      `crypto:ohlcv:${coinId}:${interval}:${rangeStart}:${rangeEnd}:${source || ''}:${currency}`,
+      CACHE_POLICIES.ohlcv,
+      () => cryptoController.getOhlcv(coinId, interval, rangeStart, rangeEnd, source, currency),
+      result => result.success
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
+  } catch (error) {
+    console.error(`Error in /api/crypto/ohlcv/${req.params.coinId}:`, error);
+    res.status(500).json({ success: false, error: 'Failed to get candles' });
+  }
+});
+
+// Indicators per request, and the largest period accepted
+const MAX_INDICATORS = 10;
+const MAX_INDICATOR_PERIOD = 500;
+const DEFAULT_INDICATORS = 'sma:20,ema:20,rsi:14,macd:12:26:9,bb:20:2';
+
+/**
+ * Parse an indicator list such as "sma:20,sma:50,rsi,macd:12:26:9,bb:20:2,vwap".
+ * Parameters left out take their defaults.
+ * @returns The indicators, or an error message
+ */
+const parseIndicators = (value: string): IndicatorSpec[] | string => {
+  const specs: IndicatorSpec[] = [];
+  for (const entry of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, ...rawParams] = entry.toLowerCase().split(':');
+    if (!INDICATOR_NAMES.includes(name as IndicatorName)) {
+      return `Unknown indicator ${name}; use ${INDICATOR_NAMES.join(', ')}`;
+    }
+    const defaults = DEFAULT_INDICATOR_PARAMS[name as IndicatorName];
+    if (rawParams.length > defaults.length) {
+      return `${name} takes at most ${defaults.length} parameters`;
+    }
+    const params = defaults.map((fallback, index) => (rawParams[index] !== undefined ? Number(rawParams[index]) : fallback));
+    // The Bollinger band width is a multiple of the standard deviation; everything else is a period
+    const invalid = params.some((param, index) => (name === 'bb' && index === 1
+      ? !(param > 0 && param <= 10)
+      : !Number.isInteger(param) || param < 1 || param > MAX_INDICATOR_PERIOD));
+    if (invalid) {
+      return `Invalid parameters for ${name}`;
+    }
+    if (name === 'macd' && params[0] >= params[1]) {
+      return 'The fast MACD period must be shorter than the slow one';
+    }
+    specs.push({ name: name as IndicatorName, params });
+  }
+  if (specs.length === 0 || specs.length > MAX_INDICATORS) {
+    return `Request between 1 and ${MAX_INDICATORS} indicators`;
+  }
+  return specs;
+};
+
+// Compute indicators over price history (?days=) or candles (?interval=&from=&to=)
+app.get('/api/crypto/indicators/:coinId', userController.identify, async (req: CustomRequest, res) => {
+  try {
+    const coinId = req.params.coinId;
+    const source = req.query.source as string | undefined; // "dexscreener" for DEX pairs (needs an interval)
+    const indicators = parseIndicators(req.query.indicators as string || DEFAULT_INDICATORS);
+    if (typeof indicators === 'string') {
+      return res.status(400).json({ success: false, error: indicators });
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+
+    let range: IndicatorRange;
+    let rangeKey: string;
+    if (req.query.interval) {
+      const interval = req.query.interval as CandleInterval;
+      if (!CANDLE_INTERVALS.includes(interval)) {
+        return res.status(400).json({ success: false, error: `interval must be one of ${CANDLE_INTERVALS.join(', ')}` });
+      }
+      const intervalMs = CANDLE_INTERVAL_MS[interval];
+      const to = req.query.to ? parseTimestamp(req.query.to) : Date.now();
+      const from = req.query.from ? parseTimestamp(req.query.from) : to !== null ? to - DEFAULT_CANDLES * intervalMs : null;
+      if (from === null || to === null) {
+        return res.status(400).json({ success: false, error: 'from and to must be ISO dates or Unix timestamps' });
+      }
+      if (from >= to) {
+        return res.status(400).json({ success: false, error: 'from must be before to' });
+      }
+      if ((to - from) / intervalMs > MAX_CANDLES) {
+        return res.status(400).json({ success: false, error: `Range exceeds ${MAX_CANDLES} ${interval} candles` });
+      }
+      range = { interval, from: candleStart(from, interval), to: candleStart(to, interval) };
+      rangeKey = `${interval}:${range.from}:${range.to}`;
+    } else {
+      if (source === 'dexscreener') {
+        return res.status(400).json({ success: false, error: 'DEX pairs have no price history; pass an interval' });
+      }
+      const days = parseInt(req.query.days as string || '30', 10);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ success: false, error: 'days must be between 1 and 365' });
+      }
+      range = { days };
+      rangeKey = `${days}d`;
+    }
+
+    const cached = await cacheService.wrap(
+      `crypto:indicators:${coinId}:${rangeKey}:${indicators.map(indicatorKey).join(',')}:${source || ''}:${currency}`,
+      'interval' in range ? CACHE_POLICIES.ohlcv : CACHE_POLICIES.priceHistory,
+      () => cryptoController.getIndicators(coinId, indicators, range, source, currency),
+      result => result.success
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
+  } catch (error) {
+    console.error(`Error in /api/crypto/indicators/${req.params.coinId}:`, error);
+    res.status(500).json({ success: false, error: 'Failed to compute indicators' });
+  }
+});
+
+// Largest batch accepted by /api/crypto/quotes
+const MAX_BATCH_QUOTES = 300;
+
+/**
+ * Validate one item of a batch quote request
+ * @returns The item, or an error message
+ */
+const parseQuoteItem = (value: any): QuoteRequestItem | string => {
+  const text = (field: unknown) => (typeof field === 'string' && field.trim() ? field.trim() : undefined);
+  const id = text(value?.id);
+  const source = text(value?.source)?.toLowerCase();
+  const chain = text(value?.chain)?.toLowerCase();
+  const address = text(value?.address);
+  if (address) {
+    return chain ? { chain, address } : 'chain is required with address';
+  }
+  if (!id) {
+    return 'Each item needs an id, or a chain and address';
+  }
+  if (source && !QUOTE_SOURCES.includes(source as MarketDataProviderName)) {
+    return `source must be one of ${QUOTE_SOURCES.join(', ')}`;
+  }
+  // Pairs without a chain would each need their own search; with it they are fetched in batches per chain
+  if (source === 'dexscreener' && !chain && !id.includes(':')) {
+    return 'chain is required for dexscreener pairs';
+  }
+  return { id, source, chain };
+};
+
+// Quote up to MAX_BATCH_QUOTES coins, DEX pairs and tokens in one request
+app.post('/api/crypto/quotes', userController.identify, async (req: CustomRequest, res) => {
+  try {
+    const rawItems = req.body?.items;
+    if (!Array.isArray(rawItems) || rawItems.length === 0) {
+      return res.status(400).json({ success: false, error: 'items must be a non-empty array' });
+    }
+    if (rawItems.length > MAX_BATCH_QUOTES) {
+      return res.status(400).json({ success: false, error: `At most ${MAX_BATCH_QUOTES} items per request` });
+    }
+    const items: QuoteRequestItem[] = [];
+    for (const [index, rawItem] of rawItems.entries()) {
+      const item = parseQuoteItem(rawItem);
+      if (typeof item === 'string') {
+        return res.status(400).json({ success: false, error: `items[${index}]: ${item}` });
+      }
+      items.push(item);
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+
+    const digest = crypto.createHash('sha256').update(JSON.stringify(items)).digest('hex');
+    const cached = await cacheService.wrap(
+      `crypto:quotes:${digest}:${currency}`,
+      CACHE_POLICIES.quotes,
+      () => cryptoController.getQuotes(items, currency),
+      // Keep only answers where every item was found or is known to be missing
+      result => result.data.every(item => item.quote || item.error === QUOTE_NOT_FOUND)
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
+  } catch (error) {
+    console.error('Error in /api/crypto/quotes:', error);
+    res.status(500).json({ success: false, error: 'Failed to get quotes' });
+  }
+});
+
+// Score the rug-pull and scam risk of a DEX pair (?chain= narrows the pair lookup)
+app.get('/api/crypto/risk/:pairId', async (req, res) => {
+  try {
+    const chain = (req.query.chain as string | undefined)?.trim().toLowerCase();
+    const pairId = chain ? `${chain}:${req.params.pairId}` : req.params.pairId;
+
+    const cached = await cacheService.wrap(
+      `crypto:risk:${pairId}`,
+      CACHE_POLICIES.risk,
+      () => cryptoController.getRisk(pairId),
+      result => result.success
+    );
+    setCacheHeaders(res, cached);
+    res.json(cached.value);
+  } catch (error) {
+    console.error(`Error in /api/crypto/risk/${req.params.pairId}:`, error);
+    res.status(500).json({ success: false, error: 'Failed to score risk' });
+  }
+});
+
+// Market overview page size
+const DEFAULT_OVERVIEW_LIMIT = 20;
+
+// Get top coins, gainers and losers, highest volume and new DEX pairs (?section=&chain=&page=&limit=)
+app.get('/api/crypto/market/overview', userController.identify, async (req: CustomRequest, res) => {
+  try {
+    const section = req.query.section as OverviewSection | undefined;
+    const chain = (req.query.chain as string | undefined)?.toLowerCase();
+    const page = req.query.page ? Number(req.query.page) : 1;
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_OVERVIEW_LIMIT;
+    if (section && !OVERVIEW_SECTIONS.includes(section)) {
+      return res.status(400).json({ success: false, error: `section must be one of ${OVERVIEW_SECTIONS.join(', ')}` });
+    }
+    if (chain && !OVERVIEW_CHAINS.includes(chain)) {
+      return res.status(400).json({ success: false, error: `chain must be one of ${OVERVIEW_CHAINS.join(', ')}` });
+    }
+    if (!Number.isInteger(page) || page < 1) {
+      return res.status(400).json({ success: false, error: 'page must be a positive integer' });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > OVERVIEW_SECTION_SIZE) {
+      return res.status(400).json({ success: false, error: `limit must be between 1 and ${OVERVIEW_SECTION_SIZE}` });
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ success: false, error: INVALID_CURRENCY_MESSAGE });
+    }
+
+    const snapshot = await marketOverviewService.getSnapshot();
+    const result = await cryptoController.getMarketOverview(snapshot.value, { section, chain, page, limit, currency });
+    setCacheHeaders(res, snapshot);
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/crypto/market/overview:', error);
+    if (error instanceof MarketDataError) {
+      return res.status(503).json({ success: false, error: 'Market data is unavailable. Try again shortly.' });
+    }
+    res.status(500).json({ success: false, error: 'Failed to get market overview' });
+  }
+});
+
+// Look an asset up across providers and chains (?id=, ?chain=&address=, or ?pair=&chain=)
+app.get('/api/crypto/assets/lookup', async (req, res) => {
+  try {
+    const id = (req.query.id as string | undefined)?.trim();
+    const chain = (req.query.chain as string | undefined)?.trim().toLowerCase();
+    const address = (req.query.address as string | undefined)?.trim();
+    const pair = (req.query.pair as string | undefined)?.trim();
+    if (!id && !address && !pair) {
+      return res.status(400).json({ success: false, error: 'Provide id, chain and address, or pair' });
+    }
+    if (address && !REGISTRY_CHAINS.includes(chain as TokenChain)) {
+      return res.status(400).json({ success: false, error: `chain must be one of ${REGISTRY_CHAINS.join(', ')}` });
+    }
+
+    const result = await cryptoController.lookupAsset({ id, chain, address, pair });
+    if (!result.success) {
+      return res.status(result.error === 'Asset not found in registry' ? 404 : 500).json(result);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/crypto/assets/lookup:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up asset' });
+  }
+});
+
+// Rate limits for unauthenticated auth endpoints
+const MINUTE = 60 * 1000;
+const authLimiter = rateLimit({ name: 'auth', windowMs: 15 * MINUTE, max: 100 });
+const registerLimiter = rateLimit({
+  name: 'register',
+  windowMs: 60 * MINUTE,
+  max: 10,
+  message: 'Too many accounts created from this IP, please try again later'
+});
+const passwordResetLimiter = rateLimit({
+  name: 'password-reset',
+  windowMs: 60 * MINUTE,
+  max: 5,
+  message: 'Too many password reset requests, please try again later'
+});
+// A challenge token allows a handful of code attempts, whichever IP they come from
+const twoFactorLimiter = rateLimit({
+  name: '2fa-challenge',
+  windowMs: 5 * MINUTE,
+  max: 5,
+  message: 'Too many two-factor attempts, please log in again',
+  keyGenerator: req => crypto.createHash('sha256').update(String(req.body?.challengeToken || req.ip)).digest('hex')
+});
+
+// Each wallet sign-in nonce is a stored document; cap how many one address can request
+const walletNonceLimiter = rateLimit({
+  name: 'wallet-nonce',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'Too many sign-in requests for this wallet, please try again later',
+  keyGenerator: req => String(req.body?.address || req.ip).trim().toLowerCase()
+});
+
+// Clients refresh every few minutes per session, so refreshes get their own budget instead of
+// sharing the one for sign-in attempts
+const refreshLimiter = rateLimit({
+  name: 'refresh',
+  windowMs: 15 * MINUTE,
+  max: 60,
+  message: 'Too many token refresh requests, please try again later'
+});
+
 // Authentication routes
-app.post('/api/auth/register', async (req, res) => {
+app.post('/api/auth/register', authLimiter, registerLimiter, async (req, res) => {
   try {
     const { fullName, email, password } = req.body;
     
@@ -122,7 +598,7 @@ app.post('/api/auth/register', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
-    const result = await userController.register({ fullName, email, password });
+    const result = await userController.register({ fullName, email, password }, getClientInfo(req));
     if (!result.success) {
       return res.status(400).json({ error: result.message });
     }
@@ -134,7 +610,7 @@ app.post('/api/auth/register', async (req, res) => {
   }
 });
 
-app.post('/api/auth/login', async (req, res) => {
+app.post('/api/auth/login', authLimiter, async (req, res) => {
   try {
     const { email, password } = req.body;
     
@@ -143,11 +619,24 @@ app.post('/api/auth/login', async (req, res) => {
       return res.status(400).json({ error: 'Missing email or password' });
     }
     
-    const result = await userController.login(email, password);
+    // Refuse attempts while the account or IP is locked or backing off
+    const ip = req.ip || '';
+    const account = String(email).toLowerCase().trim();
+    const throttle = await rateLimitService.checkLogin(ip, account);
+    if (!throttle.allowed) {
+      return sendTooManyRequests(res, throttle);
+    }
+    
+    const result = await userController.login(email, password, getClientInfo(req));
     if (!result.success) {
+      await rateLimitService.recordLoginFailure(ip, account);
       return res.status(401).json({ error: result.message });
     }
     
+    // With two-factor on, the failure counter is only cleared once the code step succeeds
+    if (!('twoFactorRequired' in result)) {
+      await rateLimitService.recordLoginSuccess(account);
+    }
     res.json(result);
   } catch (error) {
     console.error('Error in /api/auth/login:', error);
@@ -155,6 +644,314 @@ app.post('/api/auth/login', async (req, res) => {
   }
 });
 
+app.post('/api/auth/login/2fa', authLimiter, twoFactorLimiter, async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+    
+    // Validate request body
+    if (!challengeToken || !code) {
+      return res.status(400).json({ error: 'Challenge token and code are required' });
+    }
+    
+    // Wrong codes count against the account like wrong passwords, and a locked account cannot finish logging in
+    const ip = req.ip || '';
+    const account = await userController.getChallengeAccount(String(challengeToken));
+    if (account) {
+      const throttle = await rateLimitService.checkLogin(ip, account);
+      if (!throttle.allowed) {
+        return sendTooManyRequests(res, throttle);
+      }
+    }
+    
+    const result = await userController.completeTwoFactorLogin(challengeToken, String(code), getClientInfo(req));
+    if (!result.success) {
+      if (account) {
+        await rateLimitService.recordLoginFailure(ip, account);
+      }
+      return res.status(401).json({ error: result.message });
+    }
+    
+    if (account) {
+      await rateLimitService.recordLoginSuccess(account);
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/login/2fa:', error);
+    res.status(500).json({ error: 'Server error during two-factor login' });
+  }
+});
+
+app.post('/api/auth/wallet/nonce', authLimiter, walletNonceLimiter, async (req, res) => {
+  try {
+    const { address } = req.body;
+    
+    if (!address) {
+      return res.status(400).json({ error: 'Wallet address is required' });
+    }
+    
+    const result = await userController.createWalletChallenge(address, 'login');
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/wallet/nonce:', error);
+    res.status(500).json({ error: 'Server error creating wallet challenge' });
+  }
+});
+
+app.post('/api/auth/wallet/login', authLimiter, async (req, res) => {
+  try {
+    const { message, signature } = req.body;
+    
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature are required' });
+    }
+    
+    const result = await userController.walletLogin(message, signature, getClientInfo(req));
+    if (!result.success) {
+      return res.status(401).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/wallet/login:', error);
+    res.status(500).json({ error: 'Server error during wallet login' });
+  }
+});
+
+app.post('/api/auth/refresh', refreshLimiter, async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    
+    const result = await userController.refresh(refreshToken, getClientInfo(req));
+    if (!result.success) {
+      return res.status(401).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/refresh:', error);
+    res.status(500).json({ error: 'Server error refreshing token' });
+  }
+});
+
+// Protected route - Log out the current session
+app.post('/api/auth/logout', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const result = await userController.logout(req.user.userId, req.user.sessionId, getClientInfo(req));
+    if (!result.success) {
+      return res.status(500).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/logout:', error);
+    res.status(500).json({ error: 'Server error during logout' });
+  }
+});
+
+// Protected route - Log out every session of the current user
+app.post('/api/auth/logout-all', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const result = await userController.logoutAll(req.user.userId, getClientInfo(req));
+    if (!result.success) {
+      return res.status(500).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/logout-all:', error);
+    res.status(500).json({ error: 'Server error during logout' });
+  }
+});
+
+app.post('/api/auth/forgot-password', authLimiter, passwordResetLimiter, async (req, res) => {
+  try {
+    const { email } = req.body;
+    
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+    
+    const result = await userController.requestPasswordReset(email, getClientInfo(req));
+    if (!result.success) {
+      return res.status(500).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/forgot-password:', error);
+    res.status(500).json({ error: 'Server error requesting password reset' });
+  }
+});
+
+app.post('/api/auth/reset-password', authLimiter, async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    
+    if (!token || !password) {
+      return res.status(400).json({ error: 'Token and new password are required' });
+    }
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+    
+    const result = await userController.resetPassword(token, password, getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/reset-password:', error);
+    res.status(500).json({ error: 'Server error resetting password' });
+  }
+});
+
+app.post('/api/auth/verify-email', authLimiter, async (req, res) => {
+  try {
+    const { token } = req.body;
+    
+    if (!token) {
+      return res.status(400).json({ error: 'Verification token is required' });
+    }
+    
+    const result = await userController.verifyEmail(token, getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/verify-email:', error);
+    res.status(500).json({ error: 'Server error verifying email' });
+  }
+});
+
+// Protected route - Resend the email verification link
+app.post('/api/auth/resend-verification', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const result = await userController.resendVerificationEmail(req.user.userId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/resend-verification:', error);
+    res.status(500).json({ error: 'Server error sending verification email' });
+  }
+});
+
+// Protected route - Start two-factor enrollment
+app.post('/api/auth/2fa/setup', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const result = await userController.setupTwoFactor(req.user.userId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/2fa/setup:', error);
+    res.status(500).json({ error: 'Server error setting up two-factor authentication' });
+  }
+});
+
+// Protected route - Confirm two-factor enrollment with a first code
+app.post('/api/auth/2fa/confirm', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+    
+    const result = await userController.confirmTwoFactor(req.user.userId, String(code), getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/2fa/confirm:', error);
+    res.status(500).json({ error: 'Server error confirming two-factor authentication' });
+  }
+});
+
+// Protected route - Disable two-factor authentication
+app.post('/api/auth/2fa/disable', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { password, code } = req.body;
+    if (!password || !code) {
+      return res.status(400).json({ error: 'Password and code are required' });
+    }
+    
+    const result = await userController.disableTwoFactor(req.user.userId, password, String(code), getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/2fa/disable:', error);
+    res.status(500).json({ error: 'Server error disabling two-factor authentication' });
+  }
+});
+
+// Protected route - Replace the two-factor backup codes
+app.post('/api/auth/2fa/backup-codes', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+    
+    const result = await userController.regenerateBackupCodes(req.user.userId, String(code), getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/2fa/backup-codes:', error);
+    res.status(500).json({ error: 'Server error regenerating backup codes' });
+  }
+});
+
 // Protected route - Get current user profile
 app.get('/api/auth/profile', userController.verifyToken, async (req: CustomRequest, res) => {
   try {
@@ -174,6 +971,178 @@ app.get('/api/auth/profile', userController.verifyToken, async (req: CustomReque
   }
 });
 
+// Protected route - Update the current user's name, email and/or default currency
+app.patch('/api/auth/profile', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { fullName, email } = req.body;
+    const currency = typeof req.body.currency === 'string' ? req.body.currency.toLowerCase() : req.body.currency;
+    if (fullName === undefined && email === undefined && currency === undefined) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+    if (fullName !== undefined && (typeof fullName !== 'string' || !fullName.trim())) {
+      return res.status(400).json({ error: 'Full name cannot be empty' });
+    }
+    if (email !== undefined && (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim()))) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+    if (currency !== undefined && !isCurrency(currency)) {
+      return res.status(400).json({ error: INVALID_CURRENCY_MESSAGE });
+    }
+    
+    const result = await userController.updateProfile(req.user.userId, { fullName, email, currency }, getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in PATCH /api/auth/profile:', error);
+    res.status(500).json({ error: 'Server error updating profile' });
+  }
+});
+
+// Protected route - Change password (signs out every other session)
+app.post('/api/auth/change-password', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { currentPassword, newPassword } = req.body;
+    if (!newPassword) {
+      return res.status(400).json({ error: 'New password is required' });
+    }
+    if (newPassword.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+    
+    const result = await userController.changePassword(req.user.userId, req.user.sessionId, currentPassword, newPassword, getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/change-password:', error);
+    res.status(500).json({ error: 'Server error changing password' });
+  }
+});
+
+// Protected route - Download all data stored for the current user
+app.get('/api/auth/export', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const result = await userController.exportAccountData(req.user.userId, getClientInfo(req));
+    if (!result.success) {
+      return res.status(404).json({ error: result.message });
+    }
+    
+    res.setHeader('Content-Disposition', `attachment; filename="snix-account-${req.user.userId}.json"`);
+    res.json(result.data);
+  } catch (error) {
+    console.error('Error in /api/auth/export:', error);
+    res.status(500).json({ error: 'Server error exporting account data' });
+  }
+});
+
+// Protected route - Recent security events of the current user (?limit=&before=)
+app.get('/api/auth/activity', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) || 50 : 50;
+    const before = req.query.before ? new Date(req.query.before as string) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return res.status(400).json({ error: 'Invalid before date' });
+    }
+
+    const result = await auditLogService.listUserEvents(req.user.userId, limit, before);
+    if (!result.success) {
+      return res.status(500).json({ error: result.message });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/activity:', error);
+    res.status(500).json({ error: 'Server error getting account activity' });
+  }
+});
+
+// Protected route - Create the message a wallet signs to confirm deleting an account without a password
+app.post('/api/auth/account/delete/nonce', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { address } = req.body;
+    if (!address) {
+      return res.status(400).json({ error: 'Wallet address is required' });
+    }
+    
+    const result = await userController.createWalletChallenge(address, 'delete_account', req.user.userId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/account/delete/nonce:', error);
+    res.status(500).json({ error: 'Server error creating wallet challenge' });
+  }
+});
+
+// Protected route - Delete the current user's account and all of its data
+app.delete('/api/auth/account', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { password, code, confirm, message, signature } = req.body;
+    if (confirm !== 'DELETE') {
+      return res.status(400).json({ error: 'Set confirm to "DELETE" to delete your account' });
+    }
+    
+    const result = await userController.deleteAccount(
+      req.user.userId,
+      password,
+      code ? String(code) : '',
+      getClientInfo(req),
+      { message, signature }
+    );
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in DELETE /api/auth/account:', error);
+    res.status(500).json({ error: 'Server error deleting account' });
+  }
+});
+
+// Linked wallet routes
+app.use('/api/auth/wallets', userWalletRoutes);
+
+// Personal API key routes
+app.use('/api/auth/api-keys', apiKeyRoutes);
+
+// Watchlist routes
+app.use('/api/auth/watchlists', watchlistRoutes);
+
+// Price alert routes
+app.use('/api/auth/alerts', alertRoutes);
+
 // Wallet routes
 app.get('/api/wallet/validate/:address', (req, res) => {
   try {
@@ -204,7 +1173,7 @@ app.put('/api/auth/wallet-address', userController.verifyToken, async (req: Cust
       return res.status(400).json({ error: 'Invalid wallet address format' });
     }
     
-    const result = await userController.updateWalletAddress(req.user.userId, walletAddress);
+    const result = await userController.updateWalletAddress(req.user.userId, walletAddress, getClientInfo(req));
     if (!result.success) {
       return res.status(404).json({ error: result.message });
     }
@@ -216,8 +1185,56 @@ app.put('/api/auth/wallet-address', userController.verifyToken, async (req: Cust
   }
 });
 
-// Protected route - Get user's wallet address
-app.get('/api/auth/wallet-address', userController.verifyToken, async (req: CustomRequest, res) => {
+// Protected route - Create the message to sign to link a wallet
+app.post('/api/auth/wallet/link/nonce', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { address } = req.body;
+    if (!address) {
+      return res.status(400).json({ error: 'Wallet address is required' });
+    }
+    
+    const result = await userController.createWalletChallenge(address, 'link', req.user.userId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/wallet/link/nonce:', error);
+    res.status(500).json({ error: 'Server error creating wallet challenge' });
+  }
+});
+
+// Protected route - Link a wallet after proving ownership with a signature
+app.post('/api/auth/wallet/link', userController.verifyToken, async (req: CustomRequest, res) => {
+  try {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+    
+    const { message, signature } = req.body;
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature are required' });
+    }
+    
+    const result = await userController.linkWallet(req.user.userId, message, signature, getClientInfo(req));
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /api/auth/wallet/link:', error);
+    res.status(500).json({ error: 'Server error linking wallet' });
+  }
+});
+
+// Protected route - Get user's wallet address (API keys accepted)
+app.get('/api/auth/wallet-address', userController.authenticate, authorize(PERMISSIONS.WALLET_READ), async (req: CustomRequest, res) => {
   try {
     if (!req.user || !req.user.userId) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -238,10 +1255,25 @@ app.get('/api/auth/wallet-address', userController.verifyToken, async (req: Cust
   }
 });
 
-app.get('/api/wallet/data/:address', async (req, res) => {
+// Chains wallets can be read on
+app.get('/api/wallet/chains', (req, res) => {
+  res.json(walletController.getSupportedChains());
+});
+
+app.get('/api/wallet/data/:address', userController.identify, async (req: CustomRequest, res) => {
   try {
     const { address } = req.params;
-    const data = await walletController.getWalletData(address);
+    // Picks the chain for addresses valid on several; defaults to the first match
+    const chain = (req.query.chain as string | undefined)?.toLowerCase();
+    const validation = walletController.validateAddress(address);
+    if (chain && !validation.chains.includes(chain)) {
+      return res.status(400).json({ error: validation.isValid ? `Address is not valid on ${chain}` : 'Invalid wallet address' });
+    }
+    const currency = await resolveCurrency(req);
+    if (!currency) {
+      return res.status(400).json({ error: INVALID_CURRENCY_MESSAGE });
+    }
+    const data = await walletController.getWalletData(address, currency, chain);
     res.json(data);
   } catch (error) {
     console.error('Error fetching wallet data:', error);
@@ -249,10 +1281,14 @@ app.get('/api/wallet/data/:address', async (req, res) => {
   }
 });
 
+// Live coin, pair and wallet updates (SSE here; WebSocket upgrades are attached to the server below)
+app.use(STREAM_PATH, streamRoutes);
+
 // Start server
-app.listen(PORT, '0.0.0.0', () => {
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`🚀 Snix backend server running on port ${PORT}`);
   console.log(`🌐 Server accessible at http://localhost:${PORT} and http://192.168.1.3:${PORT}`);
 });
+attachStreamServer(server);
 
 export default app;
@@ -0,0 +1,48 @@
+// A collection holding records owned by users. Every service that stores
+// per-user data registers itself here so account export and deletion cover it.
+export interface UserDataOwner {
+  // Key of this owner's section in the export archive
+  name: string;
+  // Return the user's records, without secrets such as token hashes
+  exportData(userId: string): Promise<unknown>;
+  // Delete the user's records and return how many were removed
+  deleteData(userId: string): Promise<number>;
+}
+
+const owners: UserDataOwner[] = [];
+
+export const accountDataService = {
+  /**
+   * Register a collection holding per-user records
+   * @param owner Export and delete handlers for the collection
+   */
+  register: (owner: UserDataOwner) => {
+    if (owners.some(existing => existing.name === owner.name)) {
+      throw new Error(`User data owner "${owner.name}" is already registered`);
+    }
+    owners.push(owner);
+  },
+
+  /**
+   * Collect every registered collection's records for a user
+   * @param userId User ID
+   * @returns Records keyed by owner name
+   */
+  exportAll: async (userId: string): Promise<Record<string, unknown>> => {
+    const sections = await Promise.all(owners.map(async owner => [owner.name, await owner.exportData(userId)] as const));
+    return Object.fromEntries(sections);
+  },
+
+  /**
+   * Delete a user's records from every registered collection
+   * @param userId User ID
+   * @returns Number of deleted records keyed by owner name
+   */
+  deleteAll: async (userId: string): Promise<Record<string, number>> => {
+    const deleted: Record<string, number> = {};
+    for (const owner of owners) {
+      deleted[owner.name] = await owner.deleteData(userId);
+    }
+    return deleted;
+  }
+};
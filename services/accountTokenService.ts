@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { accountDataService } from './accountDataService';
+
+export type AccountTokenPurpose = 'email_verification' | 'password_reset';
+
+// Token lifetimes, in minutes
+const TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  email_verification: Number(process.env.EMAIL_VERIFICATION_TTL_MINUTES || 24 * 60),
+  password_reset: Number(process.env.PASSWORD_RESET_TTL_MINUTES || 30)
+};
+
+// Single-use tokens mailed to users; only their hash is stored
+const accountTokenSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  purpose: {
+    type: String,
+    enum: ['email_verification', 'password_reset'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // Extra data bound to the token, e.g. the address being verified
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Let MongoDB remove tokens once they have expired
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AccountToken = mongoose.model('AccountToken', accountTokenSchema);
+
+accountDataService.register({
+  name: 'accountTokens',
+  exportData: async (userId) => AccountToken.find({ userId })
+    .select('purpose usedAt expiresAt createdAt')
+    .lean(),
+  deleteData: async (userId) => (await AccountToken.deleteMany({ userId })).deletedCount
+});
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const accountTokenService = {
+  /**
+   * Issue a new token, invalidating earlier unused tokens of the same purpose
+   * @param userId User ID
+   * @param purpose What the token may be used for
+   * @param data Extra data bound to the token
+   * @returns The plain token to send to the user
+   */
+  issue: async (userId: string, purpose: AccountTokenPurpose, data: Record<string, any> = {}): Promise<string> => {
+    await AccountToken.deleteMany({ userId, purpose, usedAt: null });
+
+    const token = crypto.randomBytes(32).toString('hex');
+    await AccountToken.create({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      data,
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000)
+    });
+    return token;
+  },
+
+  /**
+   * Consume a token. Each token can be consumed once, before it expires.
+   * @param token Plain token received from the user
+   * @param purpose Expected purpose
+   * @returns The owner and bound data, or null if the token is invalid
+   */
+  consume: async (token: string, purpose: AccountTokenPurpose) => {
+    if (!token) {
+      return null;
+    }
+
+    // Mark as used atomically so concurrent requests cannot both succeed
+    const record = await AccountToken.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        purpose,
+        usedAt: null,
+        expiresAt: { $gt: new Date() }
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+
+    if (!record) {
+      return null;
+    }
+    return { userId: record.userId.toString(), data: (record.data || {}) as Record<string, any> };
+  }
+};
@@ -0,0 +1,604 @@
+import mongoose from 'mongoose';
+import { accountDataService } from './accountDataService';
+import { assetTypeOf, findQuote, marketDataService } from './marketDataService';
+import { fxService } from './fxService';
+import { priceStoreService } from './priceStoreService';
+import { notificationService, NotificationChannelType, NOTIFICATION_CHANNELS } from './notificationService';
+import { MarketAssetType, MarketDataProviderName, MarketQuote } from './marketData/types';
+import { CURRENCIES, Currency } from '../config/currencies';
+
+export const ALERT_CONDITIONS = ['above', 'below', 'percent_change'] as const;
+
+export type AlertCondition = typeof ALERT_CONDITIONS[number];
+
+// Sources an alert's asset can come from, as returned in the `source` field of search results
+export const ALERT_SOURCES: MarketDataProviderName[] = ['coinpaprika', 'coingecko', 'dexscreener'];
+
+// Limits per user
+const MAX_ALERTS_PER_USER = 50;
+const MAX_CHANNELS_PER_ALERT = 5;
+
+// Alerts loaded per evaluation batch; each batch costs one quote call per asset type
+const EVALUATION_BATCH_SIZE = 200;
+
+// How long delivery history is kept
+const DELIVERY_RETENTION_DAYS = Number(process.env.ALERT_DELIVERY_RETENTION_DAYS || 90);
+
+// Error type
+interface ApiError extends Error {
+  message: string;
+}
+
+export interface AlertChannelInput {
+  type: NotificationChannelType;
+  // Webhook URL, push token or email address
+  target: string;
+}
+
+export interface AlertInput {
+  assetId: string;
+  source: MarketDataProviderName;
+  condition: AlertCondition;
+  // Price for above/below (in `currency`); for percent_change the 24h move in percent,
+  // negative for a drop (-10 fires on a 10% fall) and positive for a rise
+  threshold: number;
+  currency?: Currency;
+  recurring?: boolean;
+  cooldownMinutes?: number;
+  channels: AlertChannelInput[];
+}
+
+// Fields of an alert that can be changed after creation
+export type AlertUpdate = Partial<Pick<AlertInput, 'threshold' | 'recurring' | 'cooldownMinutes' | 'channels'>> & {
+  active?: boolean;
+};
+
+const alertChannelSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: true
+  },
+  target: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 500
+  }
+}, { _id: false });
+
+// Price alert rules
+const priceAlertSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  assetId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  source: {
+    type: String,
+    enum: ALERT_SOURCES,
+    required: true
+  },
+  condition: {
+    type: String,
+    enum: ALERT_CONDITIONS,
+    required: true
+  },
+  threshold: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: 'usd'
+  },
+  // Recurring alerts re-arm once the condition stops holding; one-shot alerts deactivate
+  recurring: {
+    type: Boolean,
+    default: false
+  },
+  // Minimum time between two triggers of a recurring alert
+  cooldownMinutes: {
+    type: Number,
+    min: 0,
+    default: 60
+  },
+  channels: {
+    type: [alertChannelSchema],
+    default: []
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  // Whether the alert can trigger; cleared when it triggers, set again when the condition stops holding
+  armed: {
+    type: Boolean,
+    default: true
+  },
+  lastTriggeredAt: {
+    type: Date,
+    default: null
+  },
+  triggerCount: {
+    type: Number,
+    default: 0
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+priceAlertSchema.index({ active: 1, _id: 1 });
+
+const PriceAlert = mongoose.model('PriceAlert', priceAlertSchema);
+
+type PriceAlertDocument = InstanceType<typeof PriceAlert>;
+
+// One attempt to deliver a triggered alert through one channel
+const alertDeliverySchema = new mongoose.Schema({
+  alertId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PriceAlert',
+    required: true,
+    index: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  channel: {
+    type: String,
+    enum: NOTIFICATION_CHANNELS,
+    required: true
+  },
+  target: {
+    type: String,
+    default: ''
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'failed'],
+    required: true
+  },
+  error: {
+    type: String,
+    default: ''
+  },
+  // Price and change that triggered the alert
+  price: {
+    type: Number,
+    default: null
+  },
+  priceChange24h: {
+    type: Number,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: DELIVERY_RETENTION_DAYS * 24 * 60 * 60
+  }
+});
+
+alertDeliverySchema.index({ userId: 1, createdAt: -1 });
+
+const AlertDelivery = mongoose.model('AlertDelivery', alertDeliverySchema);
+
+type AlertDeliveryDocument = InstanceType<typeof AlertDelivery>;
+
+accountDataService.register({
+  name: 'priceAlerts',
+  exportData: async (userId) => PriceAlert.find({ userId })
+    .select('-__v -userId')
+    .lean(),
+  deleteData: async (userId) => (await PriceAlert.deleteMany({ userId })).deletedCount
+});
+
+accountDataService.register({
+  name: 'alertDeliveries',
+  exportData: async (userId) => AlertDelivery.find({ userId })
+    .sort({ createdAt: -1 })
+    .select('-__v -userId')
+    .lean(),
+  deleteData: async (userId) => (await AlertDelivery.deleteMany({ userId })).deletedCount
+});
+
+// Prices of assets with active alerts are collected into the local price history
+priceStoreService.registerSource({
+  name: 'priceAlerts',
+  listAssets: async () => {
+    const assets = await PriceAlert.aggregate([
+      { $match: { active: true } },
+      { $group: { _id: { assetId: '$assetId', source: '$source' } } }
+    ]);
+    return assets.map(({ _id }) => ({ assetType: assetTypeOf(_id.source), assetId: _id.assetId }));
+  }
+});
+
+/**
+ * Format an alert for API responses
+ */
+const formatAlert = (alert: PriceAlertDocument) => ({
+  id: alert._id,
+  assetId: alert.assetId,
+  source: alert.source,
+  condition: alert.condition,
+  threshold: alert.threshold,
+  currency: alert.currency,
+  recurring: alert.recurring,
+  cooldownMinutes: alert.cooldownMinutes,
+  channels: alert.channels.map(channel => ({ type: channel.type, target: channel.target })),
+  active: alert.active,
+  lastTriggeredAt: alert.lastTriggeredAt,
+  triggerCount: alert.triggerCount,
+  createdAt: alert.createdAt
+});
+
+/**
+ * Format a delivery for API responses
+ */
+const formatDelivery = (delivery: AlertDeliveryDocument) => ({
+  id: delivery._id,
+  alertId: delivery.alertId,
+  channel: delivery.channel,
+  target: delivery.target,
+  status: delivery.status,
+  error: delivery.error || undefined,
+  price: delivery.price,
+  priceChange24h: delivery.priceChange24h,
+  createdAt: delivery.createdAt
+});
+
+/**
+ * Check the channels of an alert
+ * @returns Error message, or null if every channel is usable
+ */
+const validateChannels = async (channels: AlertChannelInput[]): Promise<string | null> => {
+  if (channels.length === 0) {
+    return 'At least one channel is required';
+  }
+  if (channels.length > MAX_CHANNELS_PER_ALERT) {
+    return `An alert can have at most ${MAX_CHANNELS_PER_ALERT} channels`;
+  }
+  for (const channel of channels) {
+    const error = await notificationService.validateTarget(channel.type, channel.target);
+    if (error) return error;
+  }
+  return null;
+};
+
+/**
+ * Whether an alert's condition holds for a quote
+ * @param alert Alert
+ * @param quote Quote in the alert's currency
+ */
+const conditionHolds = (alert: PriceAlertDocument, quote: MarketQuote) => {
+  switch (alert.condition) {
+    case 'above':
+      return quote.price >= alert.threshold;
+    case 'below':
+      return quote.price <= alert.threshold;
+    // A negative threshold waits for a drop of at least that much, otherwise for a rise
+    case 'percent_change':
+      return alert.threshold < 0
+        ? quote.priceChange24h <= alert.threshold
+        : quote.priceChange24h >= alert.threshold;
+  }
+};
+
+/**
+ * Describe a triggered alert for notifications
+ */
+const describeTrigger = (alert: PriceAlertDocument, quote: MarketQuote) => {
+  const code = alert.currency.toUpperCase();
+  const price = `${quote.price.toPrecision(6)} ${code}`;
+  switch (alert.condition) {
+    case 'above':
+      return `${quote.symbol} is at ${price}, above your alert at ${alert.threshold} ${code}`;
+    case 'below':
+      return `${quote.symbol} is at ${price}, below your alert at ${alert.threshold} ${code}`;
+    default:
+      return `${quote.symbol} moved ${quote.priceChange24h.toFixed(2)}% in 24h (now ${price})`;
+  }
+};
+
+/**
+ * Send a triggered alert through each of its channels and record the deliveries
+ */
+const deliverAlert = async (alert: PriceAlertDocument, quote: MarketQuote) => {
+  const body = describeTrigger(alert, quote);
+  const notification = {
+    title: `Price alert: ${quote.symbol}`,
+    body,
+    data: {
+      type: 'price_alert',
+      alertId: alert._id.toString(),
+      assetId: alert.assetId,
+      source: alert.source,
+      condition: alert.condition,
+      threshold: alert.threshold,
+      currency: alert.currency,
+      price: quote.price,
+      priceChange24h: quote.priceChange24h,
+      triggeredAt: new Date().toISOString()
+    }
+  };
+
+  await Promise.all(alert.channels.map(async channel => {
+    let error = '';
+    try {
+      await notificationService.send(channel.type, channel.target, notification);
+    } catch (sendError) {
+      error = (sendError as Error).message || 'Delivery failed';
+      console.error(`Error delivering alert ${alert._id} via ${channel.type}:`, error);
+    }
+    await AlertDelivery.create({
+      alertId: alert._id,
+      userId: alert.userId,
+      channel: channel.type,
+      target: channel.target,
+      status: error ? 'failed' : 'sent',
+      error,
+      price: quote.price,
+      priceChange24h: quote.priceChange24h
+    });
+  }));
+};
+
+/**
+ * Evaluate one batch of alerts against quotes fetched once per asset type
+ * @returns Number of alerts triggered
+ */
+const evaluateBatch = async (alerts: PriceAlertDocument[]): Promise<number> => {
+  // Quote in USD once, then convert per alert currency
+  const quotes: MarketQuote[] = [];
+  for (const assetType of ['coin', 'dex_pair'] as MarketAssetType[]) {
+    const ids = Array.from(new Set(alerts.filter(alert => assetTypeOf(alert.source) === assetType).map(alert => alert.assetId)));
+    if (ids.length === 0) continue;
+    try {
+      const result = await marketDataService.quote(ids, assetType);
+      quotes.push(...result.data);
+    } catch (error) {
+      console.error(`Error quoting ${assetType} assets for alerts:`, (error as Error).message);
+    }
+  }
+
+  let triggered = 0;
+  const now = new Date();
+  for (const alert of alerts) {
+    const usdQuote = findQuote(quotes, alert.assetId, alert.source);
+    if (!usdQuote) continue;
+
+    let quote: MarketQuote;
+    try {
+      quote = fxService.convertQuote(usdQuote, await fxService.getRate('usd', alert.currency as Currency));
+    } catch (error) {
+      console.error(`Error converting quote for alert ${alert._id}:`, (error as Error).message);
+      continue;
+    }
+
+    if (!conditionHolds(alert, quote)) {
+      // Re-arm once the condition stops holding, so a recurring alert fires on the next crossing
+      if (!alert.armed) {
+        await PriceAlert.updateOne({ _id: alert._id }, { armed: true });
+      }
+      continue;
+    }
+
+    const cooldownEnds = (alert.lastTriggeredAt?.getTime() || 0) + alert.cooldownMinutes * 60 * 1000;
+    if (!alert.armed || cooldownEnds > now.getTime()) continue;
+
+    // Claim the trigger atomically so two workers never deliver the same alert twice
+    const claim = await PriceAlert.updateOne(
+      { _id: alert._id, active: true, armed: true },
+      {
+        armed: false,
+        active: alert.recurring,
+        lastTriggeredAt: now,
+        $inc: { triggerCount: 1 }
+      }
+    );
+    if (claim.modifiedCount === 0) continue;
+
+    await deliverAlert(alert, quote);
+    triggered++;
+  }
+  return triggered;
+};
+
+let evaluatorTimer: NodeJS.Timeout | null = null;
+let evaluating = false;
+
+export const alertService = {
+  /**
+   * List a user's alerts, newest first
+   * @param userId User ID
+   */
+  listAlerts: async (userId: string) => {
+    try {
+      const alerts = await PriceAlert.find({ userId }).sort({ createdAt: -1 });
+      return { success: true, alerts: alerts.map(formatAlert) };
+    } catch (error: unknown) {
+      console.error('Error in listAlerts:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list alerts', error: apiError.message };
+    }
+  },
+
+  /**
+   * Create an alert
+   * @param userId User ID
+   * @param input Alert rule and channels
+   */
+  createAlert: async (userId: string, input: AlertInput) => {
+    try {
+      const channelError = await validateChannels(input.channels);
+      if (channelError) {
+        return { success: false, message: channelError };
+      }
+      const count = await PriceAlert.countDocuments({ userId });
+      if (count >= MAX_ALERTS_PER_USER) {
+        return { success: false, message: `You can have at most ${MAX_ALERTS_PER_USER} alerts` };
+      }
+
+      const alert = await PriceAlert.create({ userId, ...input });
+      return { success: true, alert: formatAlert(alert) };
+    } catch (error: unknown) {
+      console.error('Error in createAlert:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to create alert', error: apiError.message };
+    }
+  },
+
+  /**
+   * Update an alert; changing the rule or re-activating it re-arms the alert
+   * @param userId User ID
+   * @param alertId Alert ID
+   * @param update Fields to change
+   */
+  updateAlert: async (userId: string, alertId: string, update: AlertUpdate) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(alertId)) {
+        return { success: false, message: 'Alert not found' };
+      }
+      if (update.channels) {
+        const channelError = await validateChannels(update.channels);
+        if (channelError) {
+          return { success: false, message: channelError };
+        }
+      }
+
+      const rearm = update.threshold !== undefined || update.active === true;
+      const alert = await PriceAlert.findOneAndUpdate(
+        { _id: alertId, userId },
+        { ...update, ...(rearm ? { armed: true } : {}) },
+        { new: true, runValidators: true }
+      );
+      if (!alert) {
+        return { success: false, message: 'Alert not found' };
+      }
+      return { success: true, alert: formatAlert(alert) };
+    } catch (error: unknown) {
+      console.error('Error in updateAlert:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to update alert', error: apiError.message };
+    }
+  },
+
+  /**
+   * Delete an alert (its delivery history is kept until it expires)
+   * @param userId User ID
+   * @param alertId Alert ID
+   */
+  deleteAlert: async (userId: string, alertId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(alertId)) {
+        return { success: false, message: 'Alert not found' };
+      }
+      const alert = await PriceAlert.findOneAndDelete({ _id: alertId, userId });
+      if (!alert) {
+        return { success: false, message: 'Alert not found' };
+      }
+      return { success: true, message: 'Alert deleted' };
+    } catch (error: unknown) {
+      console.error('Error in deleteAlert:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to delete alert', error: apiError.message };
+    }
+  },
+
+  /**
+   * List a user's alert deliveries, newest first
+   * @param userId User ID
+   * @param alertId Only deliveries of this alert
+   * @param limit Maximum number of deliveries (1-100)
+   * @param before Only deliveries older than this date (for paging)
+   */
+  listDeliveries: async (userId: string, alertId?: string, limit: number = 50, before?: Date) => {
+    try {
+      if (alertId && !mongoose.Types.ObjectId.isValid(alertId)) {
+        return { success: false, message: 'Alert not found' };
+      }
+      const filter: Record<string, unknown> = { userId };
+      if (alertId) filter.alertId = alertId;
+      if (before) filter.createdAt = { $lt: before };
+
+      const deliveries = await AlertDelivery.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(Math.min(Math.max(limit, 1), 100));
+      return { success: true, deliveries: deliveries.map(formatDelivery) };
+    } catch (error: unknown) {
+      console.error('Error in listDeliveries:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list deliveries', error: apiError.message };
+    }
+  },
+
+  /**
+   * Evaluate every active alert, in batches, and deliver the ones that trigger
+   * @returns Number of alerts evaluated and triggered
+   */
+  evaluateAlerts: async () => {
+    let evaluated = 0;
+    let triggered = 0;
+    let lastId: mongoose.Types.ObjectId | null = null;
+
+    // Page by _id so alerts updated during the run are not skipped or seen twice
+    while (true) {
+      const filter: Record<string, unknown> = { active: true };
+      if (lastId) filter._id = { $gt: lastId };
+      const alerts: PriceAlertDocument[] = await PriceAlert.find(filter).sort({ _id: 1 }).limit(EVALUATION_BATCH_SIZE);
+      if (alerts.length === 0) break;
+
+      triggered += await evaluateBatch(alerts);
+      evaluated += alerts.length;
+      lastId = alerts[alerts.length - 1]._id;
+    }
+    return { evaluated, triggered };
+  },
+
+  /**
+   * Evaluate alerts on a fixed interval; a run is skipped while the previous one is still going
+   * @param intervalSeconds Seconds between runs
+   */
+  startEvaluator: (intervalSeconds: number) => {
+    if (evaluatorTimer) return;
+    evaluatorTimer = setInterval(async () => {
+      if (evaluating) return;
+      evaluating = true;
+      try {
+        const { evaluated, triggered } = await alertService.evaluateAlerts();
+        if (triggered > 0) {
+          console.log(`🔔 Evaluated ${evaluated} price alerts, ${triggered} triggered`);
+        }
+      } catch (error) {
+        console.error('Error evaluating price alerts:', error);
+      } finally {
+        evaluating = false;
+      }
+    }, intervalSeconds * 1000);
+    evaluatorTimer.unref();
+  },
+
+  /**
+   * Stop the evaluator started with startEvaluator
+   */
+  stopEvaluator: () => {
+    if (evaluatorTimer) {
+      clearInterval(evaluatorTimer);
+      evaluatorTimer = null;
+    }
+  }
+};
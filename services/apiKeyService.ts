@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { API_KEY_SCOPES, Permission } from '../config/permissions';
+import { accountDataService } from './accountDataService';
+
+// Maximum number of active keys per user
+const MAX_KEYS_PER_USER = 20;
+
+// Only record "last used" once per minute to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Error type
+interface ApiError extends Error {
+  message: string;
+}
+
+// Options when creating a key
+interface CreateApiKeyOptions {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+// Personal API keys; only a hash of the key is stored
+const apiKeySchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  // Public part of the key, shown in listings to tell keys apart
+  prefix: {
+    type: String,
+    required: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  scopes: {
+    type: [String],
+    default: []
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedIp: {
+    type: String,
+    default: ''
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const ApiKey = mongoose.model('ApiKey', apiKeySchema);
+
+type ApiKeyDocument = InstanceType<typeof ApiKey>;
+
+accountDataService.register({
+  name: 'apiKeys',
+  exportData: async (userId) => ApiKey.find({ userId })
+    .select('name prefix scopes lastUsedAt lastUsedIp expiresAt revokedAt createdAt')
+    .lean(),
+  deleteData: async (userId) => (await ApiKey.deleteMany({ userId })).deletedCount
+});
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Format a key for API responses (never includes the key itself)
+ */
+const formatApiKey = (apiKey: ApiKeyDocument) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  expiresAt: apiKey.expiresAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt
+});
+
+export const apiKeyService = {
+  /**
+   * Create a key for a user
+   * @param userId User ID
+   * @param options Name, scopes and optional lifetime
+   * @returns The key (returned only once) and its metadata
+   */
+  createKey: async (userId: string, options: CreateApiKeyOptions) => {
+    try {
+      const scopes = Array.from(new Set(options.scopes));
+      const invalidScopes = scopes.filter(scope => !(API_KEY_SCOPES as string[]).includes(scope));
+      if (scopes.length === 0 || invalidScopes.length > 0) {
+        return {
+          success: false,
+          message: `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`
+        };
+      }
+
+      const activeKeys = await ApiKey.countDocuments({ userId, revokedAt: null });
+      if (activeKeys >= MAX_KEYS_PER_USER) {
+        return { success: false, message: `You can have at most ${MAX_KEYS_PER_USER} active API keys` };
+      }
+
+      const prefix = crypto.randomBytes(4).toString('hex');
+      const key = `snix_${prefix}_${crypto.randomBytes(24).toString('base64url')}`;
+      const apiKey = await ApiKey.create({
+        userId,
+        name: options.name,
+        prefix,
+        keyHash: hashKey(key),
+        scopes,
+        expiresAt: options.expiresInDays
+          ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+          : null
+      });
+
+      return { success: true, key, apiKey: formatApiKey(apiKey) };
+    } catch (error: unknown) {
+      console.error('Error in createKey:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to create API key', error: apiError.message };
+    }
+  },
+
+  /**
+   * List a user's keys, newest first
+   * @param userId User ID
+   */
+  listKeys: async (userId: string) => {
+    try {
+      const keys = await ApiKey.find({ userId }).sort({ createdAt: -1 });
+      return { success: true, apiKeys: keys.map(formatApiKey) };
+    } catch (error: unknown) {
+      console.error('Error in listKeys:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list API keys', error: apiError.message };
+    }
+  },
+
+  /**
+   * Revoke a key
+   * @param userId Owner of the key
+   * @param keyId Key ID
+   */
+  revokeKey: async (userId: string, keyId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(keyId)) {
+        return { success: false, message: 'API key not found' };
+      }
+      const apiKey = await ApiKey.findOneAndUpdate(
+        { _id: keyId, userId, revokedAt: null },
+        { revokedAt: new Date() },
+        { new: true }
+      );
+      if (!apiKey) {
+        return { success: false, message: 'API key not found' };
+      }
+      return { success: true, apiKey: formatApiKey(apiKey) };
+    } catch (error: unknown) {
+      console.error('Error in revokeKey:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to revoke API key', error: apiError.message };
+    }
+  },
+
+  /**
+   * Revoke every key of a user
+   * @param userId User ID
+   * @returns Number of revoked keys
+   */
+  revokeAllKeys: async (userId: string): Promise<number> => {
+    const result = await ApiKey.updateMany({ userId, revokedAt: null }, { revokedAt: new Date() });
+    return result.modifiedCount;
+  },
+
+  /**
+   * Look up an active key and record its use
+   * @param key Key presented in the X-API-Key header
+   * @param ip Client IP
+   * @returns Owner, key ID and scopes, or null if the key is invalid, revoked or expired
+   */
+  verifyKey: async (key: string, ip: string = '') => {
+    if (!key || !key.startsWith('snix_')) {
+      return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashKey(key), revokedAt: null });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip })
+        .catch(error => console.error('Error recording API key usage:', error));
+    }
+
+    return {
+      keyId: apiKey._id.toString(),
+      userId: apiKey.userId.toString(),
+      scopes: apiKey.scopes as Permission[]
+    };
+  }
+};
@@ -0,0 +1,400 @@
+import axios from 'axios';
+import mongoose from 'mongoose';
+import { coinGeckoProvider } from './marketData/coinGeckoProvider';
+import { coinPaprikaProvider } from './marketData/coinPaprikaProvider';
+import { ListedCoin, MarketDataProviderName, TokenChain } from './marketData/types';
+
+// Chains whose token contracts are tracked
+export const REGISTRY_CHAINS: TokenChain[] = ['ethereum', 'solana'];
+
+// Token lists seeding names, symbols and logos of tokens the coin lists miss
+const TOKEN_LISTS: { chain: TokenChain; url: string; chainId: number }[] = [
+  { chain: 'ethereum', url: 'https://tokens.uniswap.org', chainId: 1 },
+  {
+    chain: 'solana',
+    url: 'https://raw.githubusercontent.com/solana-labs/token-list/main/src/tokens/solana.tokenlist.json',
+    chainId: 101
+  }
+];
+
+// Assets written per bulk write while seeding
+const SEED_BATCH_SIZE = 1000;
+
+// Providers whose coin ids are recorded
+type RegistryProvider = 'coinpaprika' | 'coingecko';
+
+export interface AssetContract {
+  chain: TokenChain;
+  address: string;
+}
+
+// One asset as known across providers and chains
+export interface AssetIdentity {
+  id: string;
+  symbol: string;
+  name: string;
+  logoUrl: string;
+  providerIds: Record<RegistryProvider, string | null>;
+  contracts: AssetContract[];
+}
+
+// An asset being assembled by the seeder
+interface AssetRecord {
+  symbol: string;
+  name: string;
+  logoUrl: string;
+  providerIds: Partial<Record<RegistryProvider, string>>;
+  contracts: AssetContract[];
+}
+
+interface TokenListEntry {
+  chain: TokenChain;
+  address: string;
+  symbol: string;
+  name: string;
+  logoURI?: string;
+}
+
+const assetContractSchema = new mongoose.Schema({
+  chain: {
+    type: String,
+    enum: REGISTRY_CHAINS,
+    required: true
+  },
+  address: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+// Links a coin's provider ids ("btc-bitcoin", "bitcoin") with its token contracts and mints
+const assetSchema = new mongoose.Schema({
+  // Seeder key: "coingecko:<id>", else "coinpaprika:<id>", else "<chain>:<address>"
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  symbol: {
+    type: String,
+    default: ''
+  },
+  name: {
+    type: String,
+    default: ''
+  },
+  logoUrl: {
+    type: String,
+    default: ''
+  },
+  providerIds: {
+    coinpaprika: String,
+    coingecko: String
+  },
+  contracts: {
+    type: [assetContractSchema],
+    default: []
+  },
+  // Seeding run that last wrote the asset; assets missing from a complete run are removed
+  seededAt: {
+    type: Date,
+    required: true
+  }
+});
+
+assetSchema.index({ 'providerIds.coinpaprika': 1 });
+assetSchema.index({ 'providerIds.coingecko': 1 });
+assetSchema.index({ 'contracts.chain': 1, 'contracts.address': 1 });
+
+const Asset = mongoose.model('Asset', assetSchema);
+
+/**
+ * Normalize a contract address for lookups (EVM addresses are case-insensitive, Solana mints are not)
+ */
+const normalizeAddress = (chain: TokenChain, address: string) =>
+  chain === 'ethereum' ? address.trim().toLowerCase() : address.trim();
+
+const formatAsset = (asset: any): AssetIdentity => ({
+  id: asset._id.toString(),
+  symbol: asset.symbol,
+  name: asset.name,
+  logoUrl: asset.logoUrl || '',
+  providerIds: {
+    coinpaprika: asset.providerIds?.coinpaprika || null,
+    coingecko: asset.providerIds?.coingecko || null
+  },
+  contracts: (asset.contracts || []).map(({ chain, address }: AssetContract) => ({ chain, address }))
+});
+
+/**
+ * Fetch a token list (tokenlists.org format) and keep the tokens of one chain
+ */
+const fetchTokenList = async (list: typeof TOKEN_LISTS[number]): Promise<TokenListEntry[]> => {
+  const response = await axios.get(list.url, { timeout: 60000 });
+  return (response.data?.tokens || [])
+    .filter((token: any) => token.chainId === list.chainId && token.address)
+    .map((token: any) => ({
+      chain: list.chain,
+      address: token.address,
+      symbol: token.symbol || '',
+      name: token.name || '',
+      logoURI: token.logoURI
+    }));
+};
+
+/**
+ * Merge the provider coin lists and token lists into assets. CoinPaprika coins are matched to
+ * CoinGecko coins by shared contract, then by id ("btc-bitcoin" and "bitcoin") and symbol,
+ * then by symbol and name when only one coin has them.
+ */
+const buildRecords = (geckoCoins: ListedCoin[], paprikaCoins: ListedCoin[], tokens: TokenListEntry[]) => {
+  const records: AssetRecord[] = [];
+  const byContract = new Map<string, AssetRecord>();
+  const byGeckoId = new Map<string, AssetRecord>();
+  const byName = new Map<string, AssetRecord[]>();
+  const nameKey = (symbol: string, name: string) => `${symbol}|${name.toLowerCase().replace(/[^a-z0-9]/g, '')}`;
+
+  const addContract = (record: AssetRecord, chain: TokenChain, address: string) => {
+    const normalized = normalizeAddress(chain, address);
+    const key = `${chain}:${normalized}`;
+    if (normalized && !byContract.has(key)) {
+      byContract.set(key, record);
+      record.contracts.push({ chain, address: normalized });
+    }
+  };
+  const addContracts = (record: AssetRecord, coin: ListedCoin) => {
+    for (const [chain, address] of Object.entries(coin.contracts || {}) as [TokenChain, string][]) {
+      addContract(record, chain, address);
+    }
+  };
+
+  for (const coin of geckoCoins) {
+    const record: AssetRecord = {
+      symbol: coin.symbol,
+      name: coin.name,
+      logoUrl: coin.logoUrl || '',
+      providerIds: { coingecko: coin.id },
+      contracts: []
+    };
+    records.push(record);
+    addContracts(record, coin);
+    byGeckoId.set(coin.id, record);
+    const key = nameKey(coin.symbol, coin.name);
+    byName.set(key, [...(byName.get(key) || []), record]);
+  }
+
+  const findMatch = (coin: ListedCoin): AssetRecord | null => {
+    const unlinked = (record?: AssetRecord) => (record && !record.providerIds.coinpaprika ? record : null);
+    for (const [chain, address] of Object.entries(coin.contracts || {}) as [TokenChain, string][]) {
+      const match = unlinked(byContract.get(`${chain}:${normalizeAddress(chain, address)}`));
+      if (match) return match;
+    }
+    const byId = unlinked(byGeckoId.get(coin.id.slice(coin.id.indexOf('-') + 1)));
+    if (byId && byId.symbol === coin.symbol) return byId;
+    const named = byName.get(nameKey(coin.symbol, coin.name)) || [];
+    return named.length === 1 ? unlinked(named[0]) : null;
+  };
+
+  for (const coin of paprikaCoins) {
+    let record = findMatch(coin);
+    if (!record) {
+      record = { symbol: coin.symbol, name: coin.name, logoUrl: '', providerIds: {}, contracts: [] };
+      records.push(record);
+    }
+    record.providerIds.coinpaprika = coin.id;
+    record.logoUrl = record.logoUrl || coin.logoUrl || '';
+    addContracts(record, coin);
+  }
+
+  for (const token of tokens) {
+    const existing = byContract.get(`${token.chain}:${normalizeAddress(token.chain, token.address)}`);
+    if (existing) {
+      existing.logoUrl = existing.logoUrl || token.logoURI || '';
+      continue;
+    }
+    const record: AssetRecord = {
+      symbol: token.symbol.toUpperCase(),
+      name: token.name,
+      logoUrl: token.logoURI || '',
+      providerIds: {},
+      contracts: []
+    };
+    records.push(record);
+    addContract(record, token.chain, token.address);
+  }
+
+  return records;
+};
+
+/**
+ * Seeder key of an assembled asset
+ */
+const recordKey = (record: AssetRecord) => {
+  if (record.providerIds.coingecko) return `coingecko:${record.providerIds.coingecko}`;
+  if (record.providerIds.coinpaprika) return `coinpaprika:${record.providerIds.coinpaprika}`;
+  return `${record.contracts[0].chain}:${record.contracts[0].address}`;
+};
+
+let seedTimer: NodeJS.Timeout | null = null;
+let seeding = false;
+
+export const assetRegistryService = {
+  /**
+   * Rebuild the registry from the provider coin lists and token lists. Assets from
+   * sources that fail are kept from the previous run.
+   * @returns Number of assets written
+   */
+  seed: async (): Promise<number> => {
+    const startedAt = new Date();
+    const [geckoResult, paprikaResult, ...listResults] = await Promise.allSettled([
+      coinGeckoProvider.listCoins!(),
+      coinPaprikaProvider.listCoins!(),
+      ...TOKEN_LISTS.map(fetchTokenList)
+    ]);
+
+    const sources = ['coingecko', 'coinpaprika', ...TOKEN_LISTS.map(list => list.url)];
+    [geckoResult, paprikaResult, ...listResults].forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error fetching ${sources[index]} for the asset registry:`, (result.reason as Error).message);
+      }
+    });
+
+    const records = buildRecords(
+      geckoResult.status === 'fulfilled' ? geckoResult.value : [],
+      paprikaResult.status === 'fulfilled' ? paprikaResult.value : [],
+      listResults.flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+    );
+    if (records.length === 0) {
+      return 0;
+    }
+
+    for (let i = 0; i < records.length; i += SEED_BATCH_SIZE) {
+      await Asset.bulkWrite(
+        records.slice(i, i + SEED_BATCH_SIZE).map(record => ({
+          updateOne: {
+            filter: { key: recordKey(record) },
+            update: { $set: { ...record, seededAt: startedAt } },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      );
+    }
+
+    // Drop assets that were merged or delisted, but only when every source answered
+    const complete = [geckoResult, paprikaResult, ...listResults].every(result => result.status === 'fulfilled');
+    if (complete) {
+      await Asset.deleteMany({ seededAt: { $lt: startedAt } });
+    }
+
+    console.log(`✅ Seeded the asset registry with ${records.length} assets`);
+    return records.length;
+  },
+
+  /**
+   * Seed the registry now if it is empty or older than the interval, then on the interval
+   * @param intervalHours Hours between seeding runs
+   */
+  startSeeder: (intervalHours: number) => {
+    if (seedTimer) return;
+    const run = async () => {
+      if (seeding) return;
+      seeding = true;
+      try {
+        await assetRegistryService.seed();
+      } catch (error) {
+        console.error('❌ Failed to seed the asset registry:', error);
+      } finally {
+        seeding = false;
+      }
+    };
+
+    Asset.findOne().sort({ seededAt: -1 }).select('seededAt').lean()
+      .then(latest => {
+        if (!latest || Date.now() - latest.seededAt.getTime() > intervalHours * 3600 * 1000) {
+          return run();
+        }
+      })
+      .catch(error => console.error('❌ Failed to check the asset registry:', error));
+    seedTimer = setInterval(run, intervalHours * 3600 * 1000);
+    seedTimer.unref();
+  },
+
+  /**
+   * Find an asset by a CoinPaprika or CoinGecko coin id
+   * @param id Coin id
+   * @returns The asset, or null
+   */
+  findByProviderId: async (id: string): Promise<AssetIdentity | null> => {
+    const asset = await Asset.findOne({ $or: [{ 'providerIds.coinpaprika': id }, { 'providerIds.coingecko': id }] }).lean();
+    return asset ? formatAsset(asset) : null;
+  },
+
+  /**
+   * Find an asset by token contract or mint address
+   * @param chain Chain the token lives on
+   * @param address Contract or mint address
+   * @returns The asset, or null
+   */
+  findByContract: async (chain: TokenChain, address: string): Promise<AssetIdentity | null> => {
+    const asset = await Asset.findOne({
+      contracts: { $elemMatch: { chain, address: normalizeAddress(chain, address) } }
+    }).lean();
+    return asset ? formatAsset(asset) : null;
+  },
+
+  /**
+   * Find the assets of several tokens on one chain
+   * @param chain Chain the tokens live on
+   * @param addresses Contract or mint addresses
+   * @returns Assets keyed by the address as given; unknown tokens are left out
+   */
+  findByContracts: async (chain: TokenChain, addresses: string[]): Promise<Map<string, AssetIdentity>> => {
+    const found = new Map<string, AssetIdentity>();
+    if (addresses.length === 0) return found;
+
+    const normalized = addresses.map(address => normalizeAddress(chain, address));
+    const assets = await Asset.find({
+      contracts: { $elemMatch: { chain, address: { $in: normalized } } }
+    }).lean();
+    const byAddress = new Map<string, AssetIdentity>();
+    for (const asset of assets) {
+      const identity = formatAsset(asset);
+      for (const contract of identity.contracts) {
+        if (contract.chain === chain) byAddress.set(contract.address, identity);
+      }
+    }
+    addresses.forEach((address, index) => {
+      const asset = byAddress.get(normalized[index]);
+      if (asset) found.set(address, asset);
+    });
+    return found;
+  },
+
+  /**
+   * Translate coin ids into a provider's own ids. Ids the registry does not know, or
+   * that the provider has no id for, are returned unchanged; so is everything while
+   * the database is not connected.
+   * @param ids Coin ids from any provider
+   * @param provider Provider to translate for
+   * @returns The provider's ids, in the same order
+   */
+  toProviderIds: async (ids: string[], provider: MarketDataProviderName): Promise<string[]> => {
+    if (provider === 'dexscreener' || ids.length === 0 || mongoose.connection.readyState !== 1) {
+      return ids;
+    }
+    const assets = await Asset.find({
+      $or: [{ 'providerIds.coinpaprika': { $in: ids } }, { 'providerIds.coingecko': { $in: ids } }]
+    }).select('providerIds').lean();
+
+    const translated = new Map<string, string>();
+    for (const asset of assets) {
+      const target = asset.providerIds?.[provider];
+      if (!target) continue;
+      for (const id of [asset.providerIds?.coinpaprika, asset.providerIds?.coingecko]) {
+        if (id) translated.set(id, target);
+      }
+    }
+    return ids.map(id => translated.get(id) || id);
+  }
+};
@@ -0,0 +1,265 @@
+import mongoose from 'mongoose';
+import { ClientInfo } from './sessionService';
+import { accountDataService } from './accountDataService';
+import { createMemoryStore } from './rateLimitService';
+
+// How long audit events are kept, in days
+const AUDIT_LOG_RETENTION_DAYS = Number(process.env.AUDIT_LOG_RETENTION_DAYS || 365);
+
+// Throttled events (rejected credentials) recorded per key and window
+const THROTTLED_EVENTS_MAX = Number(process.env.AUDIT_THROTTLED_EVENTS_MAX || 20);
+const THROTTLED_EVENTS_WINDOW_MS = 15 * 60 * 1000;
+
+// Counts of throttled events; kept in memory so skipping a write costs no database call
+const throttleStore = createMemoryStore();
+
+export const AUDIT_EVENTS = [
+  'register',
+  'login',
+  'login_2fa',
+  'wallet_login',
+  'token_refresh',
+  'logout',
+  'logout_all',
+  'token_rejected',
+  'api_key_rejected',
+  'password_change',
+  'password_reset_request',
+  'password_reset',
+  'email_verification',
+  'profile_update',
+  'two_factor_enable',
+  'two_factor_disable',
+  'backup_codes_regenerate',
+  'wallet_add',
+  'wallet_link',
+  'wallet_remove',
+  'wallet_primary_change',
+  'api_key_create',
+  'api_key_revoke',
+  'account_export',
+  'account_delete',
+  'admin_user_disable',
+  'admin_user_enable',
+  'admin_role_change',
+  'admin_force_logout'
+] as const;
+
+export type AuditEventType = typeof AUDIT_EVENTS[number];
+
+export type AuditOutcome = 'success' | 'failure';
+
+// Error type
+interface ApiError extends Error {
+  message: string;
+}
+
+// Event to record
+interface AuditEntry {
+  event: AuditEventType;
+  outcome: AuditOutcome;
+  // Account the event concerns, if known
+  userId?: string | null;
+  client?: ClientInfo;
+  // Extra context, e.g. the wallet address or the failure reason (never secrets)
+  details?: Record<string, unknown>;
+}
+
+// Filters for the admin audit log query
+interface AuditQuery {
+  userId?: string;
+  event?: string;
+  outcome?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Security-relevant account events
+const auditEventSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  event: {
+    type: String,
+    enum: AUDIT_EVENTS,
+    required: true
+  },
+  outcome: {
+    type: String,
+    enum: ['success', 'failure'],
+    required: true
+  },
+  ip: {
+    type: String,
+    default: ''
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  details: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+auditEventSchema.index({ userId: 1, createdAt: -1 });
+auditEventSchema.index({ event: 1, createdAt: -1 });
+auditEventSchema.index({ ip: 1, createdAt: -1 });
+// Let MongoDB remove events once the retention period has passed
+auditEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 });
+
+const AuditEvent = mongoose.model('AuditEvent', auditEventSchema);
+
+type AuditEventDocument = InstanceType<typeof AuditEvent>;
+
+accountDataService.register({
+  name: 'securityEvents',
+  exportData: async (userId) => AuditEvent.find({ userId })
+    .select('event outcome ip userAgent details createdAt')
+    .sort({ createdAt: -1 })
+    .lean(),
+  deleteData: async (userId) => (await AuditEvent.deleteMany({ userId })).deletedCount
+});
+
+/**
+ * Format an event for API responses
+ */
+const formatEvent = (event: AuditEventDocument) => ({
+  id: event._id,
+  userId: event.userId,
+  event: event.event,
+  outcome: event.outcome,
+  ip: event.ip,
+  userAgent: event.userAgent,
+  details: event.details,
+  createdAt: event.createdAt
+});
+
+export const auditLogService = {
+  /**
+   * Record an event. Writes happen in the background and never fail the caller.
+   * @param entry Event type, outcome, user, client and details
+   */
+  record: (entry: AuditEntry) => {
+    const userId = entry.userId && mongoose.Types.ObjectId.isValid(entry.userId) ? entry.userId : null;
+    AuditEvent.create({
+      userId,
+      event: entry.event,
+      outcome: entry.outcome,
+      ip: entry.client?.ip || '',
+      userAgent: entry.client?.userAgent || '',
+      details: entry.details || {}
+    }).catch(error => console.error(`Error recording audit event ${entry.event}:`, error));
+  },
+
+  /**
+   * Record an event anyone can trigger without an account, at most THROTTLED_EVENTS_MAX times
+   * per key and window. The last recorded event is marked `throttled`; later ones are dropped
+   * until the window frees up.
+   * @param key What to count events by, usually the client IP
+   * @param entry Event type, outcome, user, client and details
+   */
+  recordThrottled: async (key: string, entry: AuditEntry) => {
+    const counterKey = `${entry.event}:${key}`;
+    if ((await throttleStore.peek(counterKey, THROTTLED_EVENTS_WINDOW_MS)).count >= THROTTLED_EVENTS_MAX) {
+      return;
+    }
+    const { count } = await throttleStore.hit(counterKey, THROTTLED_EVENTS_WINDOW_MS);
+    auditLogService.record(count === THROTTLED_EVENTS_MAX
+      ? { ...entry, details: { ...entry.details, throttled: true } }
+      : entry);
+  },
+
+  /**
+   * List a user's own recent events, newest first
+   * @param userId User ID
+   * @param limit Maximum number of events
+   * @param before Only return events older than this date (for paging)
+   */
+  listUserEvents: async (userId: string, limit: number = 50, before?: Date) => {
+    try {
+      const filter: Record<string, any> = { userId };
+      if (before) {
+        filter.createdAt = { $lt: before };
+      }
+
+      const events = await AuditEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(Math.min(100, Math.max(1, limit)));
+
+      return { success: true, events: events.map(formatEvent) };
+    } catch (error: unknown) {
+      console.error('Error in listUserEvents:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list account activity', error: apiError.message };
+    }
+  },
+
+  /**
+   * Admin: search events across all users
+   * @param query Filters and paging
+   */
+  queryEvents: async (query: AuditQuery = {}) => {
+    try {
+      const page = Math.max(1, query.page || 1);
+      const limit = Math.min(200, Math.max(1, query.limit || 50));
+
+      const filter: Record<string, any> = {};
+      if (query.userId) {
+        if (!mongoose.Types.ObjectId.isValid(query.userId)) {
+          return { success: false, message: 'Invalid user ID' };
+        }
+        filter.userId = query.userId;
+      }
+      if (query.event) {
+        if (!(AUDIT_EVENTS as readonly string[]).includes(query.event)) {
+          return { success: false, message: `Event must be one of: ${AUDIT_EVENTS.join(', ')}` };
+        }
+        filter.event = query.event;
+      }
+      if (query.outcome) {
+        if (query.outcome !== 'success' && query.outcome !== 'failure') {
+          return { success: false, message: 'Outcome must be success or failure' };
+        }
+        filter.outcome = query.outcome;
+      }
+      if (query.ip) {
+        filter.ip = query.ip;
+      }
+      if (query.from || query.to) {
+        filter.createdAt = {
+          ...(query.from ? { $gte: query.from } : {}),
+          ...(query.to ? { $lte: query.to } : {})
+        };
+      }
+
+      const [events, total] = await Promise.all([
+        AuditEvent.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        AuditEvent.countDocuments(filter)
+      ]);
+
+      return {
+        success: true,
+        events: events.map(formatEvent),
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+      };
+    } catch (error: unknown) {
+      console.error('Error in queryEvents:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to query audit log', error: apiError.message };
+    }
+  }
+};
@@ -0,0 +1,223 @@
+import mongoose from 'mongoose';
+import { Response } from 'express';
+
+// Maximum number of entries kept by the in-memory cache
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES || 1000);
+
+// Stored value with its freshness window
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  // Served as-is until this time
+  freshUntil: number;
+  // Served while being refreshed in the background until this time
+  staleUntil: number;
+}
+
+// Backend keeping cache entries
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// How long a resource is fresh, and how long after that a stale copy may be served, in seconds
+export interface CachePolicy {
+  ttlSeconds: number;
+  staleSeconds: number;
+}
+
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+// Value returned by cacheService.wrap()
+export interface CachedResult<T> {
+  value: T;
+  status: CacheStatus;
+  // Seconds since the value was fetched
+  age: number;
+}
+
+/**
+ * Least-recently-used cache kept in process memory (single instance deployments)
+ * @param maxEntries Entries kept before the least recently used are evicted
+ */
+export const createMemoryStore = (maxEntries: number = CACHE_MAX_ENTRIES): CacheStore => {
+  // A Map keeps insertion order; re-inserting on access moves an entry to the end
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get: async (key) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set: async (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    }
+  };
+};
+
+/**
+ * Cache kept in MongoDB (shared between instances)
+ */
+export const createMongoStore = (): CacheStore => {
+  const cacheEntrySchema = new mongoose.Schema({
+    key: { type: String, required: true, unique: true },
+    value: { type: mongoose.Schema.Types.Mixed },
+    storedAt: { type: Date, required: true },
+    freshUntil: { type: Date, required: true },
+    staleUntil: { type: Date, required: true }
+  });
+  // Let MongoDB remove entries once they can no longer be served
+  cacheEntrySchema.index({ staleUntil: 1 }, { expireAfterSeconds: 0 });
+
+  const CacheEntryModel = mongoose.model('CacheEntry', cacheEntrySchema);
+
+  return {
+    get: async (key) => {
+      const entry = await CacheEntryModel.findOne({ key, staleUntil: { $gt: new Date() } }).lean();
+      if (!entry) return null;
+      return {
+        value: entry.value,
+        storedAt: entry.storedAt.getTime(),
+        freshUntil: entry.freshUntil.getTime(),
+        staleUntil: entry.staleUntil.getTime()
+      };
+    },
+    set: async (key, entry) => {
+      await CacheEntryModel.updateOne(
+        { key },
+        {
+          value: entry.value,
+          storedAt: new Date(entry.storedAt),
+          freshUntil: new Date(entry.freshUntil),
+          staleUntil: new Date(entry.staleUntil)
+        },
+        { upsert: true }
+      );
+    },
+    delete: async (key) => {
+      await CacheEntryModel.deleteOne({ key });
+    }
+  };
+};
+
+let store: CacheStore = process.env.CACHE_STORE === 'mongo' ? createMongoStore() : createMemoryStore();
+
+// Loads in progress, so concurrent misses for the same key share one upstream call
+const inflight = new Map<string, Promise<unknown>>();
+
+/**
+ * Load a value, sharing the call with concurrent loads of the same key, and store it
+ */
+const load = <T>(key: string, policy: CachePolicy, loader: () => Promise<T>, shouldCache: (value: T) => boolean): Promise<T> => {
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = (async () => {
+    const value = await loader();
+    if (shouldCache(value)) {
+      const now = Date.now();
+      await store.set(key, {
+        value,
+        storedAt: now,
+        freshUntil: now + policy.ttlSeconds * 1000,
+        staleUntil: now + (policy.ttlSeconds + policy.staleSeconds) * 1000
+      }).catch(error => console.error(`Error writing cache entry ${key}:`, error));
+    }
+    return value;
+  })().finally(() => inflight.delete(key));
+
+  inflight.set(key, promise);
+  return promise;
+};
+
+/**
+ * Set X-Cache and Age headers describing how a response was served
+ */
+export const setCacheHeaders = (res: Response, result: CachedResult<unknown>) => {
+  res.set('X-Cache', result.status);
+  res.set('Age', String(result.age));
+};
+
+export const cacheService = {
+  /**
+   * Replace the active store
+   * @param newStore Store to use for subsequent calls
+   */
+  setStore: (newStore: CacheStore) => {
+    store = newStore;
+  },
+
+  /**
+   * Get a value from the cache, loading it on a miss. Stale values are served
+   * while a background refresh runs.
+   * @param key Cache key (endpoint and parameters)
+   * @param policy Freshness and staleness windows
+   * @param loader Loads the value from upstream
+   * @param shouldCache Whether a loaded value may be stored (e.g. skip failures)
+   */
+  wrap: async <T>(
+    key: string,
+    policy: CachePolicy,
+    loader: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<CachedResult<T>> => {
+    let entry: CacheEntry | null = null;
+    try {
+      entry = await store.get(key);
+    } catch (error) {
+      // A broken cache must not break the endpoint
+      console.error(`Error reading cache entry ${key}:`, error);
+    }
+
+    const now = Date.now();
+    if (entry && entry.freshUntil > now) {
+      return { value: entry.value as T, status: 'HIT', age: Math.floor((now - entry.storedAt) / 1000) };
+    }
+    if (entry && entry.staleUntil > now) {
+      load(key, policy, loader, shouldCache)
+        .catch(error => console.error(`Error refreshing cache entry ${key}:`, error));
+      return { value: entry.value as T, status: 'STALE', age: Math.floor((now - entry.storedAt) / 1000) };
+    }
+
+    const value = await load(key, policy, loader, shouldCache);
+    return { value, status: 'MISS', age: 0 };
+  },
+
+  /**
+   * Load a value now and store it, whatever is cached (for scheduled refreshes)
+   * @param key Cache key
+   * @param policy Freshness and staleness windows
+   * @param loader Loads the value from upstream
+   * @param shouldCache Whether a loaded value may be stored
+   */
+  refresh: <T>(
+    key: string,
+    policy: CachePolicy,
+    loader: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> => load(key, policy, loader, shouldCache),
+
+  /**
+   * Remove an entry
+   * @param key Cache key
+   */
+  invalidate: async (key: string) => {
+    await store.delete(key);
+  }
+};
@@ -0,0 +1,51 @@
+import { ethereumAdapter } from './chains/ethereumAdapter';
+import { solanaAdapter } from './chains/solanaAdapter';
+import { ChainAdapter } from './chains/types';
+
+// Adapters in the order addresses are matched against them
+const adapters = new Map<string, ChainAdapter>();
+
+export const chainRegistry = {
+  /**
+   * Add a chain. Called once per adapter at startup; a later adapter with the same id replaces the earlier one.
+   * @param adapter Adapter reading wallets on the chain
+   */
+  register: (adapter: ChainAdapter) => {
+    adapters.set(adapter.chain, adapter);
+  },
+
+  /**
+   * Get the adapter of a chain
+   * @param chain Chain id
+   * @returns The adapter, or undefined if the chain is not supported
+   */
+  get: (chain: string): ChainAdapter | undefined => adapters.get(chain),
+
+  /**
+   * Ids of the supported chains
+   */
+  chains: () => Array.from(adapters.keys()),
+
+  /**
+   * Every adapter an address is valid on
+   * @param address Wallet address
+   */
+  matching: (address: string) => Array.from(adapters.values()).filter(adapter => adapter.isValidAddress(address)),
+
+  /**
+   * Pick the adapter for an address
+   * @param address Wallet address
+   * @param chain Chain to use when the address is valid on several; defaults to the first registered
+   * @returns The adapter, or undefined if the address is invalid (on the given chain)
+   */
+  resolve: (address: string, chain?: string): ChainAdapter | undefined => {
+    if (chain) {
+      const adapter = adapters.get(chain);
+      return adapter?.isValidAddress(address) ? adapter : undefined;
+    }
+    return chainRegistry.matching(address)[0];
+  }
+};
+
+chainRegistry.register(ethereumAdapter);
+chainRegistry.register(solanaAdapter);
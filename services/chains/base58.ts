@@ -0,0 +1,20 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Decode a base58 string (Bitcoin alphabet, as used by Solana)
+ */
+export const base58Decode = (input: string): Buffer => {
+  let value = BigInt(0);
+  for (const char of input) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base58 character');
+    }
+    value = value * BigInt(58) + BigInt(index);
+  }
+
+  let hex = value === BigInt(0) ? '' : value.toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  const leadingZeros = input.length - input.replace(/^1+/, '').length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex, 'hex')]);
+};
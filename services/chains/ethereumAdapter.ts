@@ -0,0 +1,117 @@
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { getAddress, verifyMessage } from 'ethers';
+import { ChainAdapter, Token, Transaction } from './types';
+import { coinPrice, describeTokens, priceTokens } from './pricing';
+
+// Load environment variables
+dotenv.config();
+
+const ALCHEMY_ETH_API_KEY = process.env.ALCHEMY_API_KEY || '';
+const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY || '';
+
+const ALCHEMY_ETH_ENDPOINT = `https://eth-mainnet.g.alchemy.com/v2/${ALCHEMY_ETH_API_KEY}`;
+const ETHERSCAN_ENDPOINT = `https://api.etherscan.io/api?apikey=${ETHERSCAN_API_KEY}`;
+
+/**
+ * Call an Alchemy JSON-RPC method
+ */
+const alchemyRequest = async (method: string, params: unknown[]) => {
+  const response = await axios.post(ALCHEMY_ETH_ENDPOINT, {
+    jsonrpc: '2.0',
+    id: 1,
+    method,
+    params
+  });
+  return response.data.result;
+};
+
+export const ethereumAdapter: ChainAdapter = {
+  chain: 'ethereum',
+  name: 'Ethereum',
+  nativeCoinId: 'ethereum',
+
+  isValidAddress: (address: string) => /^0x[a-fA-F0-9]{40}$/.test(address),
+
+  // EIP-55 checksum
+  normalizeAddress: (address: string) => {
+    try {
+      return getAddress(address.toLowerCase());
+    } catch (error) {
+      return null;
+    }
+  },
+
+  // EIP-191 personal_sign signatures, checked by recovering the signer (secp256k1)
+  signIn: {
+    chainId: '1',
+    verifySignature: (address: string, message: string, signature: string) => {
+      try {
+        return verifyMessage(message, signature) === getAddress(address);
+      } catch (error) {
+        return false;
+      }
+    }
+  },
+
+  getNativeBalance: async (address: string) => {
+    const balanceWei = parseInt(await alchemyRequest('eth_getBalance', [address, 'latest']), 16);
+    return balanceWei / 1e18;
+  },
+
+  getTokens: async (address: string) => {
+    const result = await alchemyRequest('alchemy_getTokenBalances', [address]);
+    const tokenBalances = result.tokenBalances || [];
+    const tokens: Token[] = await Promise.all(
+      tokenBalances.map(async (token: any) => {
+        const metadata = await alchemyRequest('alchemy_getTokenMetadata', [token.contractAddress]);
+        const balance = parseInt(token.tokenBalance, 16) / Math.pow(10, metadata.decimals || 18);
+
+        return {
+          symbol: metadata.symbol || 'UNKNOWN',
+          name: metadata.name || 'Unknown Token',
+          balance: balance.toString(),
+          decimals: metadata.decimals || 18,
+          tokenAddress: token.contractAddress,
+          logo: metadata.logo,
+          price: 0,
+          value: 0
+        };
+      })
+    );
+    await describeTokens('ethereum', tokens);
+    return tokens;
+  },
+
+  getTransactions: async (address: string) => {
+    const txResponse = await axios.get(
+      `${ETHERSCAN_ENDPOINT}&module=account&action=txlist&address=${address}&sort=desc&page=1&offset=10`
+    );
+
+    // Check if the API call was successful and if result is an array
+    if (txResponse.data && txResponse.data.status === '1' && Array.isArray(txResponse.data.result)) {
+      return txResponse.data.result.map((tx: any): Transaction => ({
+        hash: tx.hash,
+        timestamp: parseInt(tx.timeStamp),
+        from: tx.from,
+        to: tx.to,
+        value: (parseInt(tx.value) / 1e18).toString(),
+        fee: (parseInt(tx.gasPrice) * parseInt(tx.gasUsed) / 1e18).toString(),
+        status: tx.isError === '0' ? 'success' : 'failed',
+        type: tx.from.toLowerCase() === address.toLowerCase() ? 'send' : 'receive'
+      }));
+    }
+    if (txResponse.data && txResponse.data.message) {
+      // Log the message if there are no transactions or an API error occurred
+      console.log(`Etherscan API message for ${address}: ${txResponse.data.message}`);
+    } else {
+      // Log a generic error if the response structure is unexpected
+      console.error(`Unexpected Etherscan API response for ${address}:`, txResponse.data);
+    }
+    return [];
+  },
+
+  getTokenPrices: (tokens: Token[]) => priceTokens('ethereum', tokens),
+
+  getNativePrice: () => coinPrice('ethereum')
+};
@@ -0,0 +1,81 @@
+import { marketDataService } from '../marketDataService';
+import { assetRegistryService } from '../assetRegistryService';
+import { TokenChain } from '../marketData/types';
+import { Token } from './types';
+
+// Token metadata and prices from the market data providers, for chains they cover
+
+/**
+ * Fill in missing token symbols, names and logos from the asset registry
+ * @param chain Chain the tokens live on
+ * @param tokens Tokens to describe (updated in place)
+ */
+export const describeTokens = async (chain: TokenChain, tokens: Token[]) => {
+  if (tokens.length === 0) return;
+  try {
+    const assets = await assetRegistryService.findByContracts(chain, tokens.map(token => token.tokenAddress));
+    for (const token of tokens) {
+      const asset = assets.get(token.tokenAddress);
+      if (!asset) continue;
+      if (!token.symbol || token.symbol === 'UNKNOWN') token.symbol = asset.symbol;
+      if (!token.name || token.name === 'Unknown Token') token.name = asset.name;
+      if (!token.logo) token.logo = asset.logoUrl;
+    }
+  } catch (error: any) {
+    console.error(`Error looking up ${chain} tokens in the asset registry:`, error.message);
+  }
+};
+
+/**
+ * USD prices of tokens from their DEX pairs. Tokens no DEX pair prices are priced as
+ * the listed coin the asset registry links them to.
+ * @param chain Chain the tokens live on
+ * @param tokens Tokens to price
+ * @returns Price per token address
+ */
+export const priceTokens = async (chain: TokenChain, tokens: Token[]): Promise<Record<string, number>> => {
+  if (tokens.length === 0) return {};
+  let prices: Record<string, number> = {};
+  try {
+    const result = await marketDataService.tokenPrices(chain, tokens.map(token => token.tokenAddress));
+    console.log(`Priced ${Object.keys(result.data).length}/${tokens.length} ${chain} tokens using ${result.provider}`);
+    prices = { ...result.data };
+  } catch (error: any) {
+    console.error(`Error fetching ${chain} token prices:`, error.message);
+  }
+
+  const unpriced = tokens.map(token => token.tokenAddress).filter(address => !prices[address]);
+  if (unpriced.length === 0) return prices;
+  try {
+    const assets = await assetRegistryService.findByContracts(chain, unpriced);
+    const coinIds = new Map<string, string>();
+    for (const address of unpriced) {
+      const providerIds = assets.get(address)?.providerIds;
+      const coinId = providerIds?.coinpaprika || providerIds?.coingecko;
+      if (coinId) coinIds.set(address, coinId);
+    }
+    if (coinIds.size === 0) return prices;
+    const { data: quotes } = await marketDataService.quote(Array.from(new Set(coinIds.values())));
+    for (const [address, coinId] of coinIds) {
+      const price = quotes.find(quote => quote.id === coinId)?.price;
+      if (price) prices[address] = price;
+    }
+  } catch (error: any) {
+    console.error(`Error pricing ${chain} tokens as listed coins:`, error.message);
+  }
+  return prices;
+};
+
+/**
+ * Get the USD price of a listed coin, or 0 if it cannot be priced
+ * @param coinId Coin id (e.g. 'ethereum', 'solana')
+ */
+export const coinPrice = async (coinId: string): Promise<number> => {
+  try {
+    const { data } = await marketDataService.quote([coinId]);
+    return data[0]?.price || 0;
+  } catch (error: any) {
+    console.error(`Error fetching ${coinId} price:`, error.message);
+    return 0;
+  }
+};
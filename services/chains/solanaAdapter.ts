@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { ChainAdapter, Token, Transaction } from './types';
+import { coinPrice, describeTokens, priceTokens } from './pricing';
+import { base58Decode } from './base58';
+
+// Load environment variables
+dotenv.config();
+
+const HELIUS_API_KEY = process.env.HELIUS_API_KEY || '';
+
+// Helius RPC endpoint format
+const HELIUS_RPC_ENDPOINT = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`;
+
+const SPL_TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+// Number of recent transactions loaded; each needs its own request
+const TRANSACTION_LIMIT = 5;
+
+// Rate limiting and retry logic
+const MIN_DELAY_MS = 500; // Minimum delay between API calls
+let lastRequestTime = 0;
+const MAX_RETRIES = 3;
+
+/**
+ * Sleep for specified milliseconds
+ */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Make a rate-limited API call with exponential backoff
+ */
+async function rateLimitedRequest(config: any, retries = 0): Promise<any> {
+  // Ensure we're not sending requests too quickly
+  const now = Date.now();
+  const elapsed = now - lastRequestTime;
+
+  if (elapsed < MIN_DELAY_MS) {
+    await sleep(MIN_DELAY_MS - elapsed);
+  }
+
+  // Update last request time
+  lastRequestTime = Date.now();
+
+  try {
+    return await axios(config);
+  } catch (error: any) {
+    // If we get rate limited (429) or server error (5xx)
+    if ((error.response?.status === 429 || (error.response?.status >= 500 && error.response?.status < 600)) && retries < MAX_RETRIES) {
+      const backoffTime = Math.pow(2, retries) * 1000; // Exponential backoff
+      console.log(`Request failed with ${error.response?.status}, retrying in ${backoffTime}ms (attempt ${retries + 1}/${MAX_RETRIES})`);
+      await sleep(backoffTime);
+      return rateLimitedRequest(config, retries + 1);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Call a Helius JSON-RPC method
+ */
+const heliusRequest = (id: string | number, method: string, params: unknown[]) => rateLimitedRequest({
+  method: 'post',
+  url: HELIUS_RPC_ENDPOINT,
+  data: {
+    jsonrpc: '2.0',
+    id,
+    method,
+    params
+  }
+});
+
+/**
+ * Parse a transaction for the wallet that sent or received it
+ */
+const parseTransaction = (address: string, signature: string, txDetails: any): Transaction => {
+  const blockTime = txDetails.blockTime || (Date.now() / 1000);
+  const fee = txDetails.meta?.fee || 0;
+
+  // Simplified transaction parsing
+  const feePayerAccount = txDetails.transaction?.message?.accountKeys?.find((acc: any) => acc.signer && acc.writable);
+  const feePayer = feePayerAccount ? feePayerAccount.pubkey : (txDetails.transaction?.message?.accountKeys?.[0]?.pubkey || '');
+
+  // Determine transaction type (send/receive) more reliably
+  let type = 'unknown';
+  const accountIndex = txDetails.transaction?.message?.accountKeys?.findIndex((acc: any) => acc.pubkey === address);
+
+  if (accountIndex !== -1 && txDetails.meta?.preBalances && txDetails.meta?.postBalances) {
+    const preBalance = txDetails.meta.preBalances[accountIndex];
+    const postBalance = txDetails.meta.postBalances[accountIndex];
+    if (postBalance < preBalance) {
+      type = 'send';
+    } else if (postBalance > preBalance) {
+      type = 'receive';
+    }
+  }
+  // Fallback if balance comparison is not definitive (e.g. token interaction without SOL change for the address itself)
+  if (type === 'unknown' && feePayer === address) {
+    type = 'send'; // If user paid the fee, likely a send or contract interaction
+  }
+
+  return {
+    hash: signature,
+    timestamp: blockTime * 1000, // Convert to milliseconds
+    from: feePayer, // Best guess for 'from'
+    to: '', // To determine recipient needs deeper parsing of instructions, complex for now
+    value: (fee / 1e9).toString(), // This is just the fee, actual value transfer is more complex
+    fee: (fee / 1e9).toString(),
+    status: txDetails.meta?.err ? 'failed' : 'success',
+    type
+  };
+};
+
+/**
+ * Decode a signature sent as base58 (wallet default) or base64
+ */
+const decodeSignature = (signature: string): Buffer | null => {
+  try {
+    const decoded = base58Decode(signature);
+    if (decoded.length === 64) return decoded;
+  } catch (error) {
+    // Not base58, try base64 below
+  }
+  const decoded = Buffer.from(signature, 'base64');
+  return decoded.length === 64 ? decoded : null;
+};
+
+export const solanaAdapter: ChainAdapter = {
+  chain: 'solana',
+  name: 'Solana',
+  nativeCoinId: 'solana',
+
+  // Base58 encoding, typically 32-44 chars
+  isValidAddress: (address: string) => /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address),
+
+  // Addresses are ed25519 public keys; base58 is case-sensitive, so they are kept as given
+  normalizeAddress: (address: string) => {
+    try {
+      return base58Decode(address).length === 32 ? address : null;
+    } catch (error) {
+      return null;
+    }
+  },
+
+  // ed25519 signatures over the message
+  signIn: {
+    chainId: 'mainnet',
+    verifySignature: (address: string, message: string, signature: string) => {
+      const signatureBytes = decodeSignature(signature);
+      if (!signatureBytes) {
+        return false;
+      }
+      const publicKey = crypto.createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: base58Decode(address).toString('base64url') },
+        format: 'jwk'
+      });
+      return crypto.verify(null, Buffer.from(message, 'utf8'), publicKey, signatureBytes);
+    }
+  },
+
+  isConfigured: () => !!HELIUS_API_KEY,
+
+  getNativeBalance: async (address: string) => {
+    const balanceResponse = await heliusRequest(1, 'getBalance', [address]);
+    return balanceResponse.data.result.value / 1e9;
+  },
+
+  getTokens: async (address: string) => {
+    const tokensResponse = await heliusRequest(1, 'getTokenAccountsByOwner', [
+      address,
+      { programId: SPL_TOKEN_PROGRAM_ID },
+      { encoding: 'jsonParsed' }
+    ]);
+
+    const tokenAccounts = tokensResponse.data.result.value || [];
+    // Symbol, name and logo are filled in from the asset registry
+    const tokens: Token[] = tokenAccounts.map((account: any) => {
+      const tokenData = account.account.data.parsed.info;
+      return {
+        symbol: 'UNKNOWN',
+        name: 'Unknown Token',
+        balance: tokenData.tokenAmount.uiAmount.toString(),
+        decimals: tokenData.tokenAmount.decimals || 9,
+        tokenAddress: tokenData.mint,
+        logo: '',
+        price: 0,
+        value: 0
+      };
+    });
+    await describeTokens('solana', tokens);
+    return tokens;
+  },
+
+  getTransactions: async (address: string) => {
+    const txResponse = await heliusRequest('helius-test', 'getSignaturesForAddress', [address, { limit: TRANSACTION_LIMIT }]);
+    const signatures = (txResponse.data && Array.isArray(txResponse.data.result)) ? txResponse.data.result : [];
+    if (signatures.length === 0) {
+      console.log(`No Solana transaction signatures found for address ${address}`);
+      return [];
+    }
+
+    const transactions: Transaction[] = [];
+    for (const sig of signatures.slice(0, TRANSACTION_LIMIT)) {
+      if (!sig || !sig.signature) continue; // Skip if signature is invalid
+      try {
+        const txDetailsResponse = await heliusRequest('tx-details', 'getTransaction', [
+          sig.signature,
+          { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }
+        ]);
+        const txDetails = txDetailsResponse.data && txDetailsResponse.data.result;
+        if (txDetails) {
+          transactions.push(parseTransaction(address, sig.signature, txDetails));
+        } else {
+          console.log(`No details found for Solana signature: ${sig.signature}`);
+        }
+      } catch (err: any) {
+        console.error(`Error fetching Solana transaction details for sig ${sig.signature}:`, err.message);
+        // Continue to next transaction
+      }
+    }
+    return transactions;
+  },
+
+  getTokenPrices: (tokens: Token[]) => priceTokens('solana', tokens),
+
+  getNativePrice: () => coinPrice('solana')
+};
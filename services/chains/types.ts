@@ -0,0 +1,70 @@
+import { Currency } from '../../config/currencies';
+
+// Types shared by the chain adapters
+
+export interface Token {
+  symbol: string;
+  name: string;
+  balance: string;
+  decimals: number;
+  tokenAddress: string;
+  logo?: string;
+  price?: number;
+  value?: number;
+}
+
+export interface Transaction {
+  hash: string;
+  timestamp: number;
+  from: string;
+  to: string;
+  value: string;
+  fee: string;
+  status: string;
+  type: string;
+}
+
+export interface WalletData {
+  address: string;
+  // Id of the chain adapter that loaded the wallet
+  blockchain: string;
+  balance: string;
+  balanceUsd?: number;
+  // Native balance valued in `currency`; token prices and values are in `currency` too
+  balanceValue?: number;
+  currency?: Currency;
+  tokens: Token[];
+  transactions: Transaction[];
+}
+
+// Proves a wallet signed a sign-in message (EIP-4361 style)
+export interface SignInVerifier {
+  // Chain ID written into the message
+  chainId: string;
+  // Check a signature over the exact message, made by a normalized address
+  verifySignature: (address: string, message: string, signature: string) => boolean;
+}
+
+// Reads wallets on one chain. Balances are in whole units; prices are in USD.
+export interface ChainAdapter {
+  // Id of the chain, e.g. "ethereum"; stored with saved wallets and returned as `blockchain`
+  chain: string;
+  // Display name, e.g. "Ethereum"
+  name: string;
+  // Listed coin id of the native currency, for pricing and the price history
+  nativeCoinId: string;
+  isValidAddress: (address: string) => boolean;
+  // Canonical form of an address for storage and comparison, or null if it is invalid
+  normalizeAddress: (address: string) => string | null;
+  // Wallet sign-in; wallets on chains without it can be added but not signed in with or verified
+  signIn?: SignInVerifier;
+  // False when the adapter is missing credentials; wallets then load empty
+  isConfigured?: () => boolean;
+  getNativeBalance: (address: string) => Promise<number>;
+  // Token balances with whatever metadata the chain provides; prices are filled in by getTokenPrices
+  getTokens: (address: string) => Promise<Token[]>;
+  getTransactions: (address: string) => Promise<Transaction[]>;
+  // USD price per token address; unpriced tokens are left out
+  getTokenPrices: (tokens: Token[]) => Promise<Record<string, number>>;
+  getNativePrice: () => Promise<number>;
+}
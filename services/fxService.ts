@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { cacheService } from './cacheService';
+import { marketDataService } from './marketDataService';
+import { Candle, MarketQuote } from './marketData/types';
+import { CACHE_POLICIES } from '../config/cache';
+import { CRYPTO_CURRENCY_COINS, Currency, FIAT_CURRENCIES } from '../config/currencies';
+
+// Fiat reference rates (ECB), no API key needed
+const FX_API = process.env.FX_API_URL || 'https://api.frankfurter.app';
+
+// Units of each currency per 1 USD
+type Rates = Partial<Record<Currency, number>>;
+
+/**
+ * Fetch fiat rates against USD from the FX source
+ */
+const loadFiatRates = async (): Promise<Rates> => {
+  const symbols = FIAT_CURRENCIES.filter(currency => currency !== 'usd').map(currency => currency.toUpperCase());
+  const response = await axios({
+    method: 'get',
+    url: `${FX_API}/latest`,
+    params: { from: 'USD', to: symbols.join(',') },
+    timeout: 10000
+  });
+
+  const rates: Rates = { usd: 1 };
+  for (const [code, rate] of Object.entries(response.data.rates || {})) {
+    rates[code.toLowerCase() as Currency] = Number(rate);
+  }
+  return rates;
+};
+
+/**
+ * Derive crypto rates from the USD price of each currency's coin
+ */
+const loadCryptoRates = async (): Promise<Rates> => {
+  const entries = Object.entries(CRYPTO_CURRENCY_COINS) as [Currency, string][];
+  const { data: quotes } = await marketDataService.quote(entries.map(([, coinId]) => coinId));
+
+  // Providers name coins differently ("bitcoin", "btc-bitcoin"), but the symbol is the currency code
+  const rates: Rates = {};
+  for (const [currency] of entries) {
+    const quote = quotes.find(item => item.symbol.toLowerCase() === currency);
+    if (quote?.price) rates[currency] = 1 / quote.price;
+  }
+  return rates;
+};
+
+/**
+ * Get the number of units of a currency per 1 USD
+ * @param currency Target currency
+ */
+const getUsdRate = async (currency: Currency): Promise<number> => {
+  if (currency === 'usd') return 1;
+
+  const fiat = FIAT_CURRENCIES.includes(currency);
+  const cached = fiat
+    ? await cacheService.wrap('fx:fiat', CACHE_POLICIES.fiatRates, loadFiatRates)
+    : await cacheService.wrap('fx:crypto', CACHE_POLICIES.cryptoRates, loadCryptoRates);
+
+  const rate = cached.value[currency];
+  if (!rate) {
+    throw new Error(`No exchange rate available for ${currency.toUpperCase()}`);
+  }
+  return rate;
+};
+
+const scale = (value: number | undefined, rate: number) => (value === undefined ? undefined : value * rate);
+
+export const fxService = {
+  /**
+   * Get the rate that converts prices quoted in one currency into another
+   * @param from Currency the prices are in
+   * @param to Currency wanted
+   */
+  getRate: async (from: Currency, to: Currency): Promise<number> => {
+    if (from === to) return 1;
+    const [fromRate, toRate] = await Promise.all([getUsdRate(from), getUsdRate(to)]);
+    return toRate / fromRate;
+  },
+
+  /**
+   * Convert the amounts of a quote; percentage changes are left as they are
+   * @param quote Quote or details
+   * @param rate Rate from fxService.getRate
+   */
+  convertQuote: <T extends MarketQuote>(quote: T, rate: number): T => rate === 1 ? quote : {
+    ...quote,
+    price: quote.price * rate,
+    volume24h: quote.volume24h * rate,
+    marketCap: scale(quote.marketCap, rate),
+    liquidity: scale(quote.liquidity, rate)
+  },
+
+  /**
+   * Convert a candle (at the current rate)
+   * @param candle Candle
+   * @param rate Rate from fxService.getRate
+   */
+  convertCandle: (candle: Candle, rate: number): Candle => rate === 1 ? candle : {
+    ...candle,
+    open: candle.open * rate,
+    high: candle.high * rate,
+    low: candle.low * rate,
+    close: candle.close * rate,
+    volume: candle.volume === null ? null : candle.volume * rate
+  }
+};
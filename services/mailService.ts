@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A mail transport delivers a message; swap it with mailService.setTransport
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Snix <no-reply@snix.app>';
+
+/**
+ * Refuse every message; used when no transport is configured. Only the recipient and
+ * subject are logged, never the body (it may hold password-reset or verification links).
+ */
+export const disabledTransport: MailTransport = {
+  name: 'disabled',
+  send: async (message) => {
+    console.warn(`📧 Email to ${message.to} (${message.subject}) not sent: no mail transport configured`);
+    throw new Error('No mail transport configured');
+  }
+};
+
+/**
+ * Print messages, bodies included, to the console (local development only)
+ */
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log('📧 Outgoing email:', JSON.stringify(message, null, 2));
+  }
+};
+
+/**
+ * Append messages as JSON lines to a file (local development and tests)
+ * @param filePath Path of the outbox file
+ */
+export const createFileTransport = (filePath: string): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await fs.promises.appendFile(filePath, JSON.stringify(entry) + '\n');
+  }
+});
+
+/**
+ * Deliver messages through an SMTP server
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+/**
+ * Without a real transport, refuse to start in production, and send nothing elsewhere
+ * @param reason What is missing
+ */
+const unconfiguredTransport = (reason: string): MailTransport => {
+  if (process.env.NODE_ENV === 'production') {
+    console.error(`FATAL ERROR: ${reason}. Set MAIL_TRANSPORT=smtp and SMTP_HOST.`);
+    process.exit(1);
+  }
+  console.warn(`WARNING: ${reason}, emails will not be sent. Set MAIL_TRANSPORT=console or file to see them locally.`);
+  return disabledTransport;
+};
+
+/**
+ * Pick the transport configured by MAIL_TRANSPORT (console, file or smtp)
+ */
+const createConfiguredTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        return unconfiguredTransport('MAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+      }
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTBOX_FILE || path.resolve(process.cwd(), 'logs/outbox.jsonl'));
+    case 'console':
+      return consoleTransport;
+    default:
+      return unconfiguredTransport('MAIL_TRANSPORT is not set');
+  }
+};
+
+let transport: MailTransport = createConfiguredTransport();
+
+export const mailService = {
+  /**
+   * Replace the active transport
+   * @param newTransport Transport to use for subsequent messages
+   */
+  setTransport: (newTransport: MailTransport) => {
+    transport = newTransport;
+  },
+
+  /**
+   * Send an email through the active transport
+   * @param message Message to send
+   * @returns Whether the message was handed to the transport
+   */
+  send: async (message: MailMessage): Promise<boolean> => {
+    try {
+      await transport.send({ ...message, from: MAIL_FROM });
+      return true;
+    } catch (error) {
+      console.error(`Error sending email via ${transport.name} transport:`, error);
+      return false;
+    }
+  }
+};
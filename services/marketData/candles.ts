@@ -0,0 +1,68 @@
+import { Candle, CandleInterval, PricePoint } from './types';
+
+// Length of each candle interval, in milliseconds
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+export const CANDLE_INTERVALS = Object.keys(CANDLE_INTERVAL_MS) as CandleInterval[];
+
+/**
+ * Start of the candle (UTC-aligned) containing a timestamp
+ */
+export const candleStart = (timestamp: number, interval: CandleInterval) =>
+  Math.floor(timestamp / CANDLE_INTERVAL_MS[interval]) * CANDLE_INTERVAL_MS[interval];
+
+/**
+ * Build candles from price points (e.g. tickers sampled every few minutes).
+ * Point sources only carry rolling 24h volume, so these candles have no volume.
+ * @param points Price points in any order
+ * @param interval Candle interval
+ */
+export const candlesFromPoints = (points: PricePoint[], interval: CandleInterval): Candle[] => {
+  const candles = new Map<number, Candle>();
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    const start = candleStart(point.timestamp, interval);
+    const candle = candles.get(start);
+    if (!candle) {
+      candles.set(start, {
+        timestamp: start,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        volume: null
+      });
+    } else {
+      candle.high = Math.max(candle.high, point.price);
+      candle.low = Math.min(candle.low, point.price);
+      candle.close = point.price;
+    }
+  }
+  return Array.from(candles.values());
+};
+
+/**
+ * Merge finer candles into candles of a longer interval
+ * @param source Candles of a shorter interval, in any order
+ * @param interval Target interval
+ */
+export const aggregateCandles = (source: Candle[], interval: CandleInterval): Candle[] => {
+  const candles = new Map<number, Candle>();
+  for (const item of [...source].sort((a, b) => a.timestamp - b.timestamp)) {
+    const start = candleStart(item.timestamp, interval);
+    const candle = candles.get(start);
+    if (!candle) {
+      candles.set(start, { ...item, timestamp: start });
+    } else {
+      candle.high = Math.max(candle.high, item.high);
+      candle.low = Math.min(candle.low, item.low);
+      candle.close = item.close;
+      candle.volume = candle.volume === null || item.volume === null ? null : candle.volume + item.volume;
+    }
+  }
+  return Array.from(candles.values());
+};
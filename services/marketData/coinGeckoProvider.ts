@@ -0,0 +1,222 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { ListedCoin, MarketDataError, MarketDataProvider, MarketDetails, MarketQuote, PricePoint, TokenChain } from './types';
+import { candlesFromPoints } from './candles';
+import { Currency } from '../../config/currencies';
+
+const COINGECKO_ENDPOINT = 'https://api.coingecko.com/api/v3';
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY || '';
+
+// Minimum delay between API calls (free tier)
+const MIN_DELAY_MS = 500;
+let lastRequestTime = 0;
+
+// Largest page of /coins/markets
+const MAX_MARKETS_PER_REQUEST = 250;
+
+// Platform ids CoinGecko uses for token contract prices
+const PLATFORMS = {
+  ethereum: 'ethereum',
+  solana: 'solana'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate-limited request function for CoinGecko; a 429 is left to the failover instead of retried here
+async function coinGeckoRequest(config: AxiosRequestConfig) {
+  const elapsed = Date.now() - lastRequestTime;
+  if (elapsed < MIN_DELAY_MS) {
+    await sleep(MIN_DELAY_MS - elapsed);
+  }
+  lastRequestTime = Date.now();
+
+  const params = COINGECKO_API_KEY ? { ...config.params, x_cg_demo_api_key: COINGECKO_API_KEY } : config.params;
+  return axios({ timeout: 10000, ...config, params });
+}
+
+/**
+ * Ids to try for a coin: the id itself, then without a CoinPaprika symbol prefix ("btc-bitcoin" -> "bitcoin")
+ */
+const candidateIds = (id: string) => {
+  const match = id.match(/^[a-z0-9]+-(.+)$/);
+  return match ? [id, match[1]] : [id];
+};
+
+/**
+ * Call a request for each candidate id until one is found
+ */
+const withCandidateIds = async <T>(id: string, request: (candidate: string) => Promise<T>): Promise<T> => {
+  for (const candidate of candidateIds(id)) {
+    try {
+      return await request(candidate);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error;
+    }
+  }
+  throw new MarketDataError(`Coin ${id} not found on coingecko`, 'not_found', 'coingecko');
+};
+
+const formatMarket = (coin: any): MarketQuote => ({
+  id: coin.id,
+  name: coin.name,
+  symbol: (coin.symbol || '').toUpperCase(),
+  price: coin.current_price || 0,
+  priceChange24h: coin.price_change_percentage_24h || 0,
+  volume24h: coin.total_volume || 0,
+  marketCap: coin.market_cap || 0,
+  rank: coin.market_cap_rank || undefined,
+  logoUrl: coin.image || '',
+  source: 'coingecko'
+});
+
+/**
+ * Fetch market data for CoinGecko ids, a page of ids per request
+ */
+const fetchMarkets = async (ids: string[], currency: Currency): Promise<MarketQuote[]> => {
+  const quotes: MarketQuote[] = [];
+  for (let i = 0; i < ids.length; i += MAX_MARKETS_PER_REQUEST) {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/markets`,
+      params: { vs_currency: currency, ids: ids.slice(i, i + MAX_MARKETS_PER_REQUEST).join(','), per_page: MAX_MARKETS_PER_REQUEST }
+    });
+    quotes.push(...(response.data || []).map(formatMarket));
+  }
+  return quotes;
+};
+
+export const coinGeckoProvider: MarketDataProvider = {
+  name: 'coingecko',
+  assetType: 'coin',
+  nativeCurrencies: ['btc', 'eth'],
+
+  search: async (query, limit, currency = 'usd') => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/search`,
+      params: { query }
+    });
+    const coins: any[] = (response.data.coins || []).slice(0, limit);
+    const markets = await fetchMarkets(coins.map(coin => coin.id), currency);
+
+    // Keep the search order; coins without market data get basic info from the search
+    return coins.map(coin => markets.find(market => market.id === coin.id) || {
+      id: coin.id,
+      name: coin.name,
+      symbol: (coin.symbol || '').toUpperCase(),
+      price: 0,
+      priceChange24h: 0,
+      volume24h: 0,
+      marketCap: 0,
+      rank: coin.market_cap_rank || undefined,
+      logoUrl: coin.large || coin.thumb || '',
+      source: 'coingecko' as const
+    });
+  },
+
+  quote: async (ids, currency = 'usd') => {
+    const quotes = await fetchMarkets(ids, currency);
+    const found = new Set(quotes.map(quote => quote.id));
+
+    // Retry ids given in CoinPaprika form without their symbol prefix
+    const retries = ids
+      .filter(id => !found.has(id))
+      .map(id => candidateIds(id)[1])
+      .filter((id): id is string => !!id && !found.has(id));
+    return quotes.concat(await fetchMarkets(retries, currency));
+  },
+
+  topCoins: async (limit, currency = 'usd') => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/markets`,
+      params: { vs_currency: currency, order: 'market_cap_desc', per_page: Math.min(limit, 250), page: 1 }
+    });
+    return (response.data || []).map(formatMarket);
+  },
+
+  details: async (id, currency = 'usd'): Promise<MarketDetails> => withCandidateIds(id, async (candidate) => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/${encodeURIComponent(candidate)}`,
+      params: { localization: false, tickers: false, community_data: false, developer_data: false }
+    });
+    const coin = response.data;
+    return {
+      id: coin.id,
+      name: coin.name,
+      symbol: (coin.symbol || '').toUpperCase(),
+      price: coin.market_data?.current_price?.[currency] || 0,
+      priceChange24h: coin.market_data?.price_change_percentage_24h_in_currency?.[currency] || 0,
+      volume24h: coin.market_data?.total_volume?.[currency] || 0,
+      marketCap: coin.market_data?.market_cap?.[currency] || 0,
+      rank: coin.market_cap_rank || undefined,
+      logoUrl: coin.image?.large || '',
+      description: coin.description?.en || '',
+      website: coin.links?.homepage?.find(Boolean) || '',
+      twitter: coin.links?.twitter_screen_name ? `https://twitter.com/${coin.links.twitter_screen_name}` : '',
+      reddit: coin.links?.subreddit_url || '',
+      github: coin.links?.repos_url?.github?.[0] || '',
+      source: 'coingecko'
+    };
+  }),
+
+  history: async (id, days, currency = 'usd'): Promise<PricePoint[]> => withCandidateIds(id, async (candidate) => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/${encodeURIComponent(candidate)}/market_chart`,
+      params: { vs_currency: currency, days }
+    });
+    const volumes: number[][] = response.data.total_volumes || [];
+    const marketCaps: number[][] = response.data.market_caps || [];
+    return (response.data.prices || []).map(([timestamp, price]: number[], index: number) => ({
+      timestamp,
+      price,
+      volume: volumes[index]?.[1],
+      marketCap: marketCaps[index]?.[1]
+    }));
+  }),
+
+  // CoinGecko picks the sampling from the range: 5-minutely up to 1 day, hourly up to 90 days, daily beyond
+  ohlcv: async (id, interval, from, to, currency = 'usd') => withCandidateIds(id, async (candidate) => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/${encodeURIComponent(candidate)}/market_chart/range`,
+      params: { vs_currency: currency, from: Math.floor(from / 1000), to: Math.floor(to / 1000) }
+    });
+    const points: PricePoint[] = (response.data.prices || []).map(([timestamp, price]: number[]) => ({ timestamp, price }));
+    return { resolution: interval, candles: candlesFromPoints(points, interval) };
+  }),
+
+  listCoins: async (): Promise<ListedCoin[]> => {
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/coins/list`,
+      params: { include_platform: true },
+      timeout: 60000
+    });
+    return (response.data || []).map((coin: any) => {
+      const contracts: Partial<Record<TokenChain, string>> = {};
+      for (const [chain, platform] of Object.entries(PLATFORMS) as [TokenChain, string][]) {
+        if (coin.platforms?.[platform]) contracts[chain] = coin.platforms[platform];
+      }
+      return { id: coin.id, symbol: (coin.symbol || '').toUpperCase(), name: coin.name, contracts };
+    });
+  },
+
+  tokenPrices: async (chain, addresses) => {
+    if (addresses.length === 0) return {};
+    const response = await coinGeckoRequest({
+      method: 'get',
+      url: `${COINGECKO_ENDPOINT}/simple/token_price/${PLATFORMS[chain]}`,
+      params: { contract_addresses: addresses.join(','), vs_currencies: 'usd' }
+    });
+
+    // CoinGecko returns lowercased addresses
+    const prices: Record<string, number> = {};
+    for (const address of addresses) {
+      const price = response.data[address.toLowerCase()]?.usd ?? response.data[address]?.usd;
+      if (typeof price === 'number') prices[address] = price;
+    }
+    return prices;
+  }
+};
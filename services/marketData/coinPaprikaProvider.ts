@@ -0,0 +1,285 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { ListedCoin, MarketDataError, MarketDataProvider, MarketDetails, MarketQuote, PricePoint, TokenChain } from './types';
+import { candlesFromPoints } from './candles';
+import { Currency } from '../../config/currencies';
+
+const COINPAPRIKA_API = 'https://api.coinpaprika.com/v1';
+
+// CoinPaprika API key - for Pro features, loaded from .env
+const COINPAPRIKA_API_KEY = process.env.COINPAPRIKA_API_KEY || '';
+
+// Rate limiting for CoinPaprika
+const MIN_PAPRIKA_DELAY_MS = 1000; // 1 second, adjust based on CoinPaprika's free/paid tier limits
+let lastPaprikaRequestTime = 0;
+
+// CoinPaprika platform ids of the chains whose token contracts are listed
+const CONTRACT_PLATFORMS: Record<TokenChain, string> = {
+  ethereum: 'eth-ethereum',
+  solana: 'sol-solana'
+};
+
+// Above this many ids, fetch every ticker once instead of one request per id
+const BULK_TICKER_THRESHOLD = 5;
+
+// CoinGecko-style ids (e.g. "bitcoin") resolved to CoinPaprika ids (e.g. "btc-bitcoin")
+const resolvedIds = new Map<string, string>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate-limited request function for CoinPaprika
+async function paprikaRequest(config: AxiosRequestConfig) {
+  const elapsed = Date.now() - lastPaprikaRequestTime;
+  if (elapsed < MIN_PAPRIKA_DELAY_MS) {
+    await sleep(MIN_PAPRIKA_DELAY_MS - elapsed);
+  }
+  lastPaprikaRequestTime = Date.now();
+
+  // CoinPaprika Pro API key is sent as an 'Authorization' header; the free tier needs none
+  const headers = COINPAPRIKA_API_KEY ? { ...config.headers, Authorization: COINPAPRIKA_API_KEY } : config.headers;
+  return axios({ timeout: 10000, ...config, headers });
+}
+
+/**
+ * Whether a CoinPaprika id ("btc-bitcoin") stands for an id given by the caller
+ * ("btc-bitcoin" itself, or the CoinGecko-style "bitcoin")
+ */
+const matchesId = (paprikaId: string, id: string) =>
+  paprikaId === id || paprikaId.slice(paprikaId.indexOf('-') + 1) === id;
+
+const logoUrl = (id: string) => `https://static.coinpaprika.com/coin/${id}/logo.png`;
+
+// Quote currency code as CoinPaprika spells it in ticker requests and responses
+const quoteCode = (currency: Currency) => currency.toUpperCase();
+
+const formatTicker = (ticker: any, currency: Currency = 'usd'): MarketQuote => ({
+  id: ticker.id,
+  name: ticker.name,
+  symbol: ticker.symbol.toUpperCase(),
+  price: ticker.quotes?.[quoteCode(currency)]?.price || 0,
+  priceChange24h: ticker.quotes?.[quoteCode(currency)]?.percent_change_24h || 0,
+  volume24h: ticker.quotes?.[quoteCode(currency)]?.volume_24h || 0,
+  marketCap: ticker.quotes?.[quoteCode(currency)]?.market_cap || 0,
+  rank: ticker.rank,
+  logoUrl: logoUrl(ticker.id),
+  source: 'coinpaprika'
+});
+
+/**
+ * Resolve an id to a CoinPaprika id, searching by name when it is not one
+ */
+const resolveId = async (id: string): Promise<string> => {
+  const cached = resolvedIds.get(id);
+  if (cached) return cached;
+
+  // Ids already in CoinPaprika form have a symbol prefix
+  if (/^[a-z0-9]+-[a-z0-9-]+$/.test(id)) {
+    try {
+      await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/coins/${id}` });
+      resolvedIds.set(id, id);
+      return id;
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 404) throw error;
+    }
+  }
+
+  const response = await paprikaRequest({
+    method: 'get',
+    url: `${COINPAPRIKA_API}/search?q=${encodeURIComponent(id.replace(/-/g, ' '))}&c=currencies&limit=10`
+  });
+  const match = (response.data.currencies || []).find((coin: any) => matchesId(coin.id, id));
+  if (!match) {
+    throw new MarketDataError(`Coin ${id} not found on coinpaprika`, 'not_found', 'coinpaprika');
+  }
+  resolvedIds.set(id, match.id);
+  return match.id;
+};
+
+export const coinPaprikaProvider: MarketDataProvider = {
+  name: 'coinpaprika',
+  assetType: 'coin',
+  nativeCurrencies: ['btc'],
+
+  search: async (query, limit, currency = 'usd') => {
+    const searchResponse = await paprikaRequest({
+      method: 'get',
+      url: `${COINPAPRIKA_API}/search?q=${encodeURIComponent(query)}&c=currencies&limit=${limit}`
+    });
+    const coinResults = searchResponse.data.currencies || [];
+
+    // Fetch ticker data for the found coins to get market details; many coins are
+    // priced from one bulk ticker request rather than one request each
+    const bulkTickers = coinResults.length > BULK_TICKER_THRESHOLD
+      ? new Map<string, any>(((await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers?quotes=${quoteCode(currency)}` })).data || [])
+        .map((ticker: any) => [ticker.id, ticker]))
+      : null;
+    const coins: MarketQuote[] = [];
+    for (const coin of coinResults) {
+      try {
+        const ticker = bulkTickers
+          ? bulkTickers.get(coin.id)
+          : (await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers/${coin.id}?quotes=${quoteCode(currency)}` })).data;
+        if (!ticker) {
+          throw new MarketDataError(`No ticker for ${coin.id}`, 'not_found', 'coinpaprika');
+        }
+        coins.push(formatTicker(ticker, currency));
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 429) throw error;
+        console.error(`Error fetching ticker for ${coin.id} from CoinPaprika:`, (error as Error).message);
+        // Fall back to basic info from search if ticker fails
+        coins.push({
+          id: coin.id,
+          name: coin.name,
+          symbol: coin.symbol.toUpperCase(),
+          price: 0,
+          priceChange24h: 0,
+          volume24h: 0,
+          marketCap: 0,
+          rank: coin.rank,
+          logoUrl: logoUrl(coin.id),
+          source: 'coinpaprika'
+        });
+      }
+    }
+    return coins;
+  },
+
+  quote: async (ids, currency = 'usd') => {
+    if (ids.length > BULK_TICKER_THRESHOLD) {
+      const response = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers?quotes=${quoteCode(currency)}` });
+      const tickers: any[] = response.data || [];
+      return ids
+        .map(id => tickers
+          .filter(ticker => matchesId(ticker.id, id))
+          .sort((a, b) => (a.rank || Infinity) - (b.rank || Infinity))[0])
+        .filter(Boolean)
+        .map(ticker => formatTicker(ticker, currency));
+    }
+
+    const quotes: MarketQuote[] = [];
+    for (const id of ids) {
+      try {
+        const paprikaId = await resolveId(id);
+        const response = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers/${paprikaId}?quotes=${quoteCode(currency)}` });
+        quotes.push(formatTicker(response.data, currency));
+      } catch (error) {
+        // Unknown ids are left out; anything else fails the whole call so it can fail over
+        if (error instanceof MarketDataError && error.kind === 'not_found') continue;
+        if (axios.isAxiosError(error) && error.response?.status === 404) continue;
+        throw error;
+      }
+    }
+    return quotes;
+  },
+
+  // CoinPaprika returns every ticker in one call; ranks order them by market cap
+  topCoins: async (limit, currency = 'usd') => {
+    const response = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers?quotes=${quoteCode(currency)}` });
+    return (response.data || [])
+      .filter((ticker: any) => ticker.rank > 0)
+      .sort((a: any, b: any) => a.rank - b.rank)
+      .slice(0, limit)
+      .map((ticker: any) => formatTicker(ticker, currency));
+  },
+
+  listCoins: async (): Promise<ListedCoin[]> => {
+    const response = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/coins`, timeout: 60000 });
+    const coins: ListedCoin[] = (response.data || [])
+      .filter((coin: any) => coin.is_active)
+      .map((coin: any) => ({
+        id: coin.id,
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        logoUrl: logoUrl(coin.id),
+        contracts: {}
+      }));
+
+    const byId = new Map(coins.map(coin => [coin.id, coin]));
+    for (const [chain, platform] of Object.entries(CONTRACT_PLATFORMS) as [TokenChain, string][]) {
+      const contractsResponse = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/contracts/${platform}`, timeout: 60000 });
+      for (const contract of contractsResponse.data || []) {
+        const coin = byId.get(contract.id);
+        if (coin && contract.active !== false) coin.contracts![chain] = contract.address;
+      }
+    }
+    return coins;
+  },
+
+  details: async (id, currency = 'usd'): Promise<MarketDetails> => {
+    const paprikaId = await resolveId(id);
+    const detailsResponse = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/coins/${paprikaId}` });
+    const details = detailsResponse.data;
+    const tickerResponse = await paprikaRequest({ method: 'get', url: `${COINPAPRIKA_API}/tickers/${paprikaId}?quotes=${quoteCode(currency)}` });
+
+    return {
+      ...formatTicker(tickerResponse.data, currency),
+      rank: details.rank,
+      description: details.description || '',
+      website: details.links?.website?.[0] || '',
+      twitter: details.links?.twitter?.[0]?.url || '',
+      reddit: details.links?.reddit?.[0]?.url || '',
+      github: details.links?.source_code?.[0] || ''
+    };
+  },
+
+  history: async (id, days, currency = 'usd'): Promise<PricePoint[]> => {
+    const paprikaId = await resolveId(id);
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    const startISO = startDate.toISOString().split('T')[0]; // YYYY-MM-DD
+
+    const response = await paprikaRequest({
+      method: 'get',
+      url: `${COINPAPRIKA_API}/tickers/${paprikaId}/historical?start=${startISO}&interval=1d&quote=${currency}`
+    });
+    return (response.data || []).map((point: any) => ({
+      timestamp: new Date(point.timestamp).getTime(),
+      price: point.price,
+      volume: point.volume_24h,
+      marketCap: point.market_cap
+    }));
+  },
+
+  ohlcv: async (id, interval, from, to, currency = 'usd') => {
+    const paprikaId = await resolveId(id);
+
+    // Daily candles (with volume) are native; intraday ones are built from 5m/1h tickers
+    if (interval === '1d') {
+      const response = await paprikaRequest({
+        method: 'get',
+        url: `${COINPAPRIKA_API}/coins/${paprikaId}/ohlcv/historical`,
+        params: { start: Math.floor(from / 1000), end: Math.floor(to / 1000), quote: currency }
+      });
+      return {
+        resolution: '1d',
+        candles: (response.data || []).map((candle: any) => ({
+          timestamp: new Date(candle.time_open).getTime(),
+          open: candle.open,
+          high: candle.high,
+          low: candle.low,
+          close: candle.close,
+          volume: candle.volume ?? null
+        }))
+      };
+    }
+
+    const response = await paprikaRequest({
+      method: 'get',
+      url: `${COINPAPRIKA_API}/tickers/${paprikaId}/historical`,
+      params: {
+        start: Math.floor(from / 1000),
+        end: Math.floor(to / 1000),
+        interval: interval === '5m' ? '5m' : '1h',
+        quote: currency,
+        limit: 5000
+      }
+    });
+    const points: PricePoint[] = (response.data || []).map((point: any) => ({
+      timestamp: new Date(point.timestamp).getTime(),
+      price: point.price
+    }));
+
+    // There is no 4h ticker interval; hourly candles are merged by the caller
+    const resolution = interval === '5m' ? '5m' : '1h';
+    return { resolution, candles: candlesFromPoints(points, resolution) };
+  }
+};
@@ -0,0 +1,255 @@
+import axios from 'axios';
+import { CandleInterval, MarketDataError, MarketDataProvider, MarketDetails, MarketQuote } from './types';
+import { CANDLE_INTERVAL_MS } from './candles';
+
+const DEXSCREENER_API = 'https://api.dexscreener.com/latest';
+
+// Dexscreener accepts up to 30 token or pair addresses per request
+const MAX_TOKENS_PER_REQUEST = 30;
+const MAX_PAIRS_PER_REQUEST = 30;
+
+// Dexscreener has no candle API; pair candles come from GeckoTerminal, which indexes the same pools
+const GECKOTERMINAL_API = 'https://api.geckoterminal.com/api/v2';
+const GECKOTERMINAL_MAX_CANDLES = 1000;
+const GECKOTERMINAL_POOLS_PER_PAGE = 20;
+
+// Dexscreener chain ids that GeckoTerminal names differently
+const GECKOTERMINAL_NETWORKS: Record<string, string> = {
+  ethereum: 'eth',
+  polygon: 'polygon_pos',
+  avalanche: 'avax'
+};
+
+// GeckoTerminal timeframe and aggregate for each candle interval
+const GECKOTERMINAL_TIMEFRAMES: Record<CandleInterval, { timeframe: string; aggregate: number }> = {
+  '5m': { timeframe: 'minute', aggregate: 5 },
+  '1h': { timeframe: 'hour', aggregate: 1 },
+  '4h': { timeframe: 'hour', aggregate: 4 },
+  '1d': { timeframe: 'day', aggregate: 1 }
+};
+
+const dexRequest = (url: string) => axios({ method: 'get', url, timeout: 10000 });
+
+const formatPair = (pair: any): MarketQuote => ({
+  id: pair.pairAddress,
+  name: pair.baseToken.name,
+  symbol: pair.baseToken.symbol,
+  price: parseFloat(pair.priceUsd || '0'),
+  priceChange24h: parseFloat(pair.priceChange?.h24 || '0'),
+  volume24h: parseFloat(pair.volume?.h24 || '0'),
+  liquidity: parseFloat(pair.liquidity?.usd || '0'),
+  marketCap: pair.marketCap || pair.fdv || undefined,
+  logoUrl: pair.info?.imageUrl || '',
+  chainId: pair.chainId,
+  tokenAddress: pair.baseToken.address,
+  isMemeCoin: true,
+  createdAt: pair.pairCreatedAt || undefined,
+  activity: {
+    volume1h: parseFloat(pair.volume?.h1 || '0'),
+    volume6h: parseFloat(pair.volume?.h6 || '0'),
+    buys24h: pair.txns?.h24?.buys || 0,
+    sells24h: pair.txns?.h24?.sells || 0
+  },
+  source: 'dexscreener'
+});
+
+/**
+ * Find a pair by address, optionally prefixed with its chain ("solana:<pairAddress>")
+ */
+const findPair = async (id: string) => {
+  const [chainId, pairAddress] = id.includes(':') ? id.split(':', 2) : ['', id];
+  if (chainId) {
+    const response = await dexRequest(`${DEXSCREENER_API}/dex/pairs/${chainId}/${pairAddress}`);
+    return response.data.pairs?.[0] || response.data.pair || null;
+  }
+
+  // Without a chain, look the address up through search
+  const response = await dexRequest(`${DEXSCREENER_API}/dex/search?q=${encodeURIComponent(pairAddress)}`);
+  return (response.data.pairs || []).find(
+    (pair: any) => pair.pairAddress?.toLowerCase() === pairAddress.toLowerCase()
+  ) || null;
+};
+
+/**
+ * Fetch pairs on one chain by address, several per request
+ */
+const fetchPairs = async (chainId: string, pairAddresses: string[]) => {
+  const pairs: any[] = [];
+  for (let i = 0; i < pairAddresses.length; i += MAX_PAIRS_PER_REQUEST) {
+    const batch = pairAddresses.slice(i, i + MAX_PAIRS_PER_REQUEST);
+    const response = await dexRequest(`${DEXSCREENER_API}/dex/pairs/${chainId}/${batch.join(',')}`);
+    pairs.push(...(response.data.pairs || (response.data.pair ? [response.data.pair] : [])));
+  }
+  return pairs;
+};
+
+/**
+ * Find each token's most liquid pair on a chain
+ * @returns Pairs keyed by the token address as given; tokens without a pair are left out
+ */
+const fetchBestPairs = async (chain: string, addresses: string[]) => {
+  const best: Record<string, any> = {};
+  for (let i = 0; i < addresses.length; i += MAX_TOKENS_PER_REQUEST) {
+    const batch = addresses.slice(i, i + MAX_TOKENS_PER_REQUEST);
+    const response = await dexRequest(`${DEXSCREENER_API}/dex/tokens/${batch.join(',')}`);
+    const pairs: any[] = (response.data.pairs || []).filter((pair: any) => pair.chainId === chain);
+    for (const address of batch) {
+      const pair = pairs
+        .filter(item => item.baseToken?.address?.toLowerCase() === address.toLowerCase())
+        .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))[0];
+      if (pair) best[address] = pair;
+    }
+  }
+  return best;
+};
+
+export const dexscreenerProvider: MarketDataProvider = {
+  name: 'dexscreener',
+  assetType: 'dex_pair',
+
+  search: async (query, limit) => {
+    const response = await dexRequest(`${DEXSCREENER_API}/dex/search?q=${encodeURIComponent(query)}`);
+    return (response.data.pairs || []).slice(0, limit).map(formatPair);
+  },
+
+  // Pairs given with their chain are fetched in batches; the rest are searched one by one
+  quote: async (ids) => {
+    const quotes: MarketQuote[] = [];
+    const byChain = new Map<string, string[]>();
+    for (const id of ids) {
+      if (id.includes(':')) {
+        const [chainId, pairAddress] = id.split(':', 2);
+        byChain.set(chainId, [...(byChain.get(chainId) || []), pairAddress]);
+        continue;
+      }
+      const pair = await findPair(id);
+      if (pair) quotes.push(formatPair(pair));
+    }
+    for (const [chainId, pairAddresses] of byChain) {
+      quotes.push(...(await fetchPairs(chainId, pairAddresses)).map(formatPair));
+    }
+    return quotes;
+  },
+
+  details: async (id): Promise<MarketDetails> => {
+    const pair = await findPair(id);
+    if (!pair) {
+      throw new MarketDataError('Pair not found', 'not_found', 'dexscreener');
+    }
+    return {
+      ...formatPair(pair),
+      website: pair.info?.websites?.[0]?.url || pair.url || '',
+      twitter: pair.info?.socials?.find((social: any) => social.type === 'twitter')?.url || ''
+    };
+  },
+
+  history: async () => {
+    throw new MarketDataError('Dexscreener does not provide price history', 'unsupported', 'dexscreener');
+  },
+
+  ohlcv: async (id, interval, from, to) => {
+    const pair = await findPair(id);
+    if (!pair) {
+      throw new MarketDataError('Pair not found', 'not_found', 'dexscreener');
+    }
+
+    const network = GECKOTERMINAL_NETWORKS[pair.chainId] || pair.chainId;
+    const { timeframe, aggregate } = GECKOTERMINAL_TIMEFRAMES[interval];
+    const limit = Math.min(GECKOTERMINAL_MAX_CANDLES, Math.ceil((to - from) / CANDLE_INTERVAL_MS[interval]) + 1);
+    const response = await axios({
+      method: 'get',
+      url: `${GECKOTERMINAL_API}/networks/${network}/pools/${pair.pairAddress}/ohlcv/${timeframe}`,
+      params: { aggregate, before_timestamp: Math.floor(to / 1000), limit, currency: 'usd' },
+      headers: { Accept: 'application/json' },
+      timeout: 10000
+    });
+
+    const list: number[][] = response.data?.data?.attributes?.ohlcv_list || [];
+    return {
+      resolution: interval,
+      candles: list.map(([time, open, high, low, close, volume]) => ({
+        timestamp: time * 1000,
+        open,
+        high,
+        low,
+        close,
+        volume
+      }))
+    };
+  },
+
+  // New pools from GeckoTerminal; pool addresses are the Dexscreener pair addresses
+  newPairs: async (chain, limit) => {
+    const network = GECKOTERMINAL_NETWORKS[chain] || chain;
+    const pairs: MarketQuote[] = [];
+    for (let page = 1; pairs.length < limit; page++) {
+      const response = await axios({
+        method: 'get',
+        url: `${GECKOTERMINAL_API}/networks/${network}/new_pools`,
+        params: { page, include: 'base_token' },
+        headers: { Accept: 'application/json' },
+        timeout: 10000
+      });
+      const pools: any[] = response.data?.data || [];
+      const tokens: any[] = response.data?.included || [];
+      for (const pool of pools) {
+        const attributes = pool.attributes || {};
+        const token = tokens.find(item => item.id === pool.relationships?.base_token?.data?.id)?.attributes || {};
+        pairs.push({
+          id: attributes.address,
+          name: token.name || attributes.name || '',
+          symbol: token.symbol || '',
+          price: parseFloat(attributes.base_token_price_usd || '0'),
+          priceChange24h: parseFloat(attributes.price_change_percentage?.h24 || '0'),
+          volume24h: parseFloat(attributes.volume_usd?.h24 || '0'),
+          liquidity: parseFloat(attributes.reserve_in_usd || '0'),
+          marketCap: parseFloat(attributes.market_cap_usd || attributes.fdv_usd || '0') || undefined,
+          logoUrl: token.image_url || '',
+          chainId: chain,
+          tokenAddress: token.address || undefined,
+          isMemeCoin: true,
+          createdAt: attributes.pool_created_at ? new Date(attributes.pool_created_at).getTime() : undefined,
+          activity: {
+            volume1h: parseFloat(attributes.volume_usd?.h1 || '0'),
+            volume6h: parseFloat(attributes.volume_usd?.h6 || '0'),
+            buys24h: attributes.transactions?.h24?.buys || 0,
+            sells24h: attributes.transactions?.h24?.sells || 0
+          },
+          source: 'dexscreener'
+        });
+      }
+      if (pools.length < GECKOTERMINAL_POOLS_PER_PAGE) break;
+    }
+    return pairs.slice(0, limit);
+  },
+
+  // Holder distribution from GeckoTerminal's token info
+  holderConcentration: async (chain, tokenAddress) => {
+    const network = GECKOTERMINAL_NETWORKS[chain] || chain;
+    const response = await axios({
+      method: 'get',
+      url: `${GECKOTERMINAL_API}/networks/${network}/tokens/${tokenAddress}/info`,
+      headers: { Accept: 'application/json' },
+      timeout: 10000
+    });
+    const top10 = parseFloat(response.data?.data?.attributes?.holders?.distribution_percentage?.top_10);
+    return Number.isFinite(top10) ? top10 : null;
+  },
+
+  // Each token is priced from its most liquid pair
+  tokenPrices: async (chain, addresses) => {
+    const prices: Record<string, number> = {};
+    for (const [address, pair] of Object.entries(await fetchBestPairs(chain, addresses))) {
+      if (pair.priceUsd) prices[address] = parseFloat(pair.priceUsd);
+    }
+    return prices;
+  },
+
+  tokenQuotes: async (chain, addresses) => {
+    const quotes: Record<string, MarketQuote> = {};
+    for (const [address, pair] of Object.entries(await fetchBestPairs(chain, addresses))) {
+      quotes[address] = formatPair(pair);
+    }
+    return quotes;
+  }
+};
@@ -0,0 +1,171 @@
+// Technical indicators over a price series. Every output is aligned with the input:
+// one value per point, null until the indicator has enough points.
+
+export type IndicatorName = 'sma' | 'ema' | 'rsi' | 'macd' | 'bb' | 'vwap';
+
+export const INDICATOR_NAMES: IndicatorName[] = ['sma', 'ema', 'rsi', 'macd', 'bb', 'vwap'];
+
+// Periods (and the Bollinger band width) used when a request leaves them out
+export const DEFAULT_INDICATOR_PARAMS: Record<IndicatorName, number[]> = {
+  sma: [20],
+  ema: [20],
+  rsi: [14],
+  macd: [12, 26, 9],
+  bb: [20, 2],
+  vwap: []
+};
+
+export interface IndicatorSpec {
+  name: IndicatorName;
+  params: number[];
+}
+
+// Input point; high, low and volume come from candles when available
+export interface SeriesPoint {
+  timestamp: number;
+  close: number;
+  high?: number;
+  low?: number;
+  volume?: number | null;
+}
+
+export type IndicatorValues = (number | null)[];
+
+export type IndicatorResult = IndicatorValues | Record<string, IndicatorValues>;
+
+export const sma = (values: number[], period: number): IndicatorValues => {
+  const result: IndicatorValues = [];
+  let sum = 0;
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) sum -= values[index - period];
+    result.push(index >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+// Seeded with the SMA of the first period values
+export const ema = (values: number[], period: number): IndicatorValues => {
+  const k = 2 / (period + 1);
+  const result: IndicatorValues = [];
+  let previous: number | null = null;
+  values.forEach((value, index) => {
+    if (index < period - 1) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null
+      ? values.slice(0, period).reduce((sum, item) => sum + item, 0) / period
+      : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+// Wilder's smoothing
+export const rsi = (values: number[], period: number): IndicatorValues => {
+  const result: IndicatorValues = values.map(() => null);
+  let gain = 0;
+  let loss = 0;
+  for (let index = 1; index < values.length; index++) {
+    const change = values[index] - values[index - 1];
+    const up = Math.max(change, 0);
+    const down = Math.max(-change, 0);
+    if (index <= period) {
+      gain += up / period;
+      loss += down / period;
+      if (index < period) continue;
+    } else {
+      gain = (gain * (period - 1) + up) / period;
+      loss = (loss * (period - 1) + down) / period;
+    }
+    result[index] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return result;
+};
+
+export const macd = (values: number[], fast: number, slow: number, signalPeriod: number) => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: IndicatorValues = values.map((_, index) =>
+    fastEma[index] !== null && slowEma[index] !== null ? fastEma[index]! - slowEma[index]! : null);
+
+  // The signal line is an EMA of the MACD line from its first value
+  const start = line.findIndex(value => value !== null);
+  const signal: IndicatorValues = values.map(() => null);
+  if (start >= 0) {
+    ema(line.slice(start) as number[], signalPeriod).forEach((value, index) => {
+      signal[start + index] = value;
+    });
+  }
+  const histogram = line.map((value, index) =>
+    value !== null && signal[index] !== null ? value - signal[index]! : null);
+  return { macd: line, signal, histogram };
+};
+
+export const bollingerBands = (values: number[], period: number, width: number) => {
+  const middle = sma(values, period);
+  const upper: IndicatorValues = [];
+  const lower: IndicatorValues = [];
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = values.slice(index - period + 1, index + 1);
+    const deviation = Math.sqrt(window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period);
+    upper.push(mean + width * deviation);
+    lower.push(mean - width * deviation);
+  });
+  return { upper, middle, lower };
+};
+
+// Cumulative from the first point, on the typical price; null without per-point volume
+export const vwap = (points: SeriesPoint[]): IndicatorValues => {
+  if (points.some(point => point.volume === null || point.volume === undefined)) {
+    return points.map(() => null);
+  }
+  let priceVolume = 0;
+  let volume = 0;
+  return points.map(point => {
+    const typical = ((point.high ?? point.close) + (point.low ?? point.close) + point.close) / 3;
+    priceVolume += typical * point.volume!;
+    volume += point.volume!;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+};
+
+/**
+ * Name of an indicator in responses, e.g. "sma_20" or "macd_12_26_9"
+ */
+export const indicatorKey = (spec: IndicatorSpec) => [spec.name, ...spec.params].join('_');
+
+/**
+ * Number of points before an indicator's first value
+ */
+export const warmupPoints = (spec: IndicatorSpec) => {
+  switch (spec.name) {
+    case 'macd': return spec.params[1] + spec.params[2];
+    case 'vwap': return 0;
+    default: return spec.params[0];
+  }
+};
+
+/**
+ * Compute one indicator over a series
+ * @param points Points in ascending time order
+ * @param spec Indicator and its parameters
+ */
+export const computeIndicator = (points: SeriesPoint[], spec: IndicatorSpec): IndicatorResult => {
+  const closes = points.map(point => point.close);
+  const [first, second, third] = spec.params;
+  switch (spec.name) {
+    case 'sma': return sma(closes, first);
+    case 'ema': return ema(closes, first);
+    case 'rsi': return rsi(closes, first);
+    case 'macd': return macd(closes, first, second, third);
+    case 'bb': return bollingerBands(closes, first, second);
+    case 'vwap': return vwap(points);
+  }
+};
@@ -0,0 +1,55 @@
+import { MarketQuote } from './types';
+
+/**
+ * Keep the most liquid pair of each base token. The kept pair carries how many pairs it stands for.
+ * @param pairs DEX pairs in any order
+ * @returns One pair per token, in the order of their first appearance
+ */
+export const collapsePairs = <T extends MarketQuote>(pairs: T[]): (T & { pairCount: number })[] => {
+  const byToken = new Map<string, T & { pairCount: number }>();
+  for (const pair of pairs) {
+    const key = `${pair.chainId || ''}:${pair.tokenAddress || pair.id}`;
+    const kept = byToken.get(key);
+    if (!kept) {
+      byToken.set(key, { ...pair, pairCount: 1 });
+    } else if ((pair.liquidity || 0) > (kept.liquidity || 0)) {
+      byToken.set(key, { ...pair, pairCount: kept.pairCount + 1 });
+    } else {
+      kept.pairCount++;
+    }
+  }
+  return Array.from(byToken.values());
+};
+
+/**
+ * How closely a result matches the query: exact symbol, exact name or address,
+ * symbol prefix, name prefix, contains, or none (matched on something else)
+ */
+export const matchRank = (quote: MarketQuote, query: string) => {
+  const term = query.trim().toLowerCase();
+  const symbol = quote.symbol.toLowerCase();
+  const name = quote.name.toLowerCase();
+  if (symbol === term) return 5;
+  if (name === term || quote.id.toLowerCase() === term || quote.tokenAddress?.toLowerCase() === term) return 4;
+  if (symbol.startsWith(term)) return 3;
+  if (name.startsWith(term)) return 2;
+  if (symbol.includes(term) || name.includes(term)) return 1;
+  return 0;
+};
+
+/**
+ * Size of a market on a log scale, from liquidity, 24h volume and market cap
+ */
+const marketWeight = (quote: MarketQuote) =>
+  Math.log10(1 + (quote.liquidity || 0)) + Math.log10(1 + (quote.volume24h || 0)) + Math.log10(1 + (quote.marketCap || 0));
+
+/**
+ * Order results by how well they match the query, then by the size of their market
+ * @param results Coins and DEX pairs
+ * @param query Search query
+ */
+export const rankResults = <T extends MarketQuote>(results: T[], query: string): T[] =>
+  results
+    .map(quote => ({ quote, match: matchRank(quote, query), weight: marketWeight(quote) }))
+    .sort((a, b) => b.match - a.match || b.weight - a.weight)
+    .map(({ quote }) => quote);
@@ -0,0 +1,151 @@
+import axios from 'axios';
+import { Currency } from '../../config/currencies';
+
+// Types shared by the market data providers
+
+export type MarketDataProviderName = 'coinpaprika' | 'coingecko' | 'dexscreener';
+
+// Listed coins (CoinPaprika/CoinGecko ids) or DEX pairs (pair addresses)
+export type MarketAssetType = 'coin' | 'dex_pair';
+
+export type TokenChain = 'ethereum' | 'solana';
+
+export type CandleInterval = '5m' | '1h' | '4h' | '1d';
+
+// Why a provider call failed; rate-limited and unavailable providers are skipped by the failover
+export type MarketDataErrorKind = 'rate_limited' | 'not_found' | 'unsupported' | 'unavailable';
+
+// Recent trading of a DEX pair (USD volumes), used for risk scoring
+export interface PairActivity {
+  volume1h: number;
+  volume6h: number;
+  buys24h: number;
+  sells24h: number;
+}
+
+export interface MarketQuote {
+  id: string;
+  name: string;
+  symbol: string;
+  price: number;
+  priceChange24h: number;
+  volume24h: number;
+  marketCap?: number;
+  liquidity?: number;
+  rank?: number;
+  logoUrl?: string;
+  chainId?: string;
+  // Contract or mint address of a DEX pair's base token
+  tokenAddress?: string;
+  isMemeCoin?: boolean;
+  // When a DEX pair was created (ms)
+  createdAt?: number;
+  activity?: PairActivity;
+  source: MarketDataProviderName;
+}
+
+export interface MarketDetails extends MarketQuote {
+  description?: string;
+  website?: string;
+  twitter?: string;
+  reddit?: string;
+  github?: string;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+  volume?: number;
+  marketCap?: number;
+}
+
+export interface Candle {
+  // Open time of the candle (ms)
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Null when the source has no per-candle volume
+  volume: number | null;
+}
+
+// Candles as returned by a provider, at the interval it could serve
+export interface CandleSeries {
+  candles: Candle[];
+  // Equal to or finer than the requested interval
+  resolution: CandleInterval;
+}
+
+// A coin as listed by a provider, for the asset registry
+export interface ListedCoin {
+  id: string;
+  symbol: string;
+  name: string;
+  logoUrl?: string;
+  // Token contract or mint address by chain, where the provider knows it
+  contracts?: Partial<Record<TokenChain, string>>;
+}
+
+// Prices are in USD unless a currency listed in the provider's nativeCurrencies is passed
+export interface MarketDataProvider {
+  name: MarketDataProviderName;
+  assetType: MarketAssetType;
+  // Currencies other than USD the provider can quote directly
+  nativeCurrencies?: Currency[];
+  search(query: string, limit: number, currency?: Currency): Promise<MarketQuote[]>;
+  // Quotes for the ids the provider knows; unknown ids are left out
+  quote(ids: string[], currency?: Currency): Promise<MarketQuote[]>;
+  details(id: string, currency?: Currency): Promise<MarketDetails>;
+  history(id: string, days: number, currency?: Currency): Promise<PricePoint[]>;
+  // OHLCV candles between two timestamps (ms)
+  ohlcv?(id: string, interval: CandleInterval, from: number, to: number, currency?: Currency): Promise<CandleSeries>;
+  // Largest coins by market cap, largest first
+  topCoins?(limit: number, currency?: Currency): Promise<MarketQuote[]>;
+  // Most recently created DEX pairs on a chain (Dexscreener chain id), newest first
+  newPairs?(chain: string, limit: number): Promise<MarketQuote[]>;
+  // Every coin the provider lists (not priced), for the asset registry
+  listCoins?(): Promise<ListedCoin[]>;
+  // Share of a token's supply held by its 10 largest holders (%), or null if unknown
+  holderConcentration?(chain: string, tokenAddress: string): Promise<number | null>;
+  // USD prices of tokens by contract/mint address, keyed by the address as given
+  tokenPrices?(chain: TokenChain, addresses: string[]): Promise<Record<string, number>>;
+  // USD quotes of tokens (Dexscreener chain id) from their most liquid pair, keyed by the address as given
+  tokenQuotes?(chain: string, addresses: string[]): Promise<Record<string, MarketQuote>>;
+}
+
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: MarketDataErrorKind,
+    public readonly provider?: MarketDataProviderName,
+    // Seconds to wait before calling the provider again (rate limits only)
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+/**
+ * Convert an error thrown while calling a provider into a MarketDataError
+ * @param provider Provider that was called
+ * @param error Thrown error
+ */
+export const toMarketDataError = (provider: MarketDataProviderName, error: unknown): MarketDataError => {
+  if (error instanceof MarketDataError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === 429) {
+      const retryAfter = Number(error.response?.headers?.['retry-after']);
+      return new MarketDataError(`${provider} rate limit reached`, 'rate_limited', provider, retryAfter || undefined);
+    }
+    if (status === 404) {
+      return new MarketDataError(`Not found on ${provider}`, 'not_found', provider);
+    }
+    return new MarketDataError(`${provider} request failed: ${status || error.message}`, 'unavailable', provider);
+  }
+  return new MarketDataError(`${provider} request failed: ${(error as Error)?.message || error}`, 'unavailable', provider);
+};
@@ -0,0 +1,352 @@
+import { coinPaprikaProvider } from './marketData/coinPaprikaProvider';
+import { coinGeckoProvider } from './marketData/coinGeckoProvider';
+import { dexscreenerProvider } from './marketData/dexscreenerProvider';
+import { aggregateCandles, CANDLE_INTERVAL_MS } from './marketData/candles';
+import { assetRegistryService } from './assetRegistryService';
+import {
+  Candle,
+  CandleInterval,
+  MarketAssetType,
+  MarketDataError,
+  MarketDataProvider,
+  MarketDataProviderName,
+  MarketQuote,
+  TokenChain,
+  toMarketDataError
+} from './marketData/types';
+import { Currency } from '../config/currencies';
+
+// Cooldown after a provider rate-limits us without a Retry-After header, in seconds
+const DEFAULT_RATE_LIMIT_COOLDOWN_SECONDS = 60;
+
+const PROVIDERS: Record<MarketDataProviderName, MarketDataProvider> = {
+  coinpaprika: coinPaprikaProvider,
+  coingecko: coinGeckoProvider,
+  dexscreener: dexscreenerProvider
+};
+
+// Result of a call, with the provider that answered it
+export interface ProviderResult<T> {
+  data: T;
+  provider: MarketDataProviderName;
+}
+
+// Result of a priced call, with the currency the provider quoted in
+export interface QuotedResult<T> extends ProviderResult<T> {
+  currency: Currency;
+}
+
+// Which providers to try for a call
+interface ProviderSelection {
+  assetType?: MarketAssetType;
+  // Provider to try first, if it qualifies
+  preferred?: string;
+  // Only providers implementing this optional method
+  requires?: 'tokenPrices' | 'tokenQuotes' | 'ohlcv' | 'topCoins' | 'newPairs' | 'holderConcentration';
+}
+
+/**
+ * Parse the configured priority order (MARKET_DATA_PROVIDERS, comma-separated)
+ */
+const parseProviderOrder = (value: string | undefined): MarketDataProviderName[] => {
+  const names = (value || 'coinpaprika,coingecko,dexscreener')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  const valid = names.filter((name): name is MarketDataProviderName => name in PROVIDERS);
+  const unknown = names.filter(name => !(name in PROVIDERS));
+  if (unknown.length > 0) {
+    console.warn(`Ignoring unknown market data providers: ${unknown.join(', ')}`);
+  }
+  return Array.from(new Set(valid));
+};
+
+const providerOrder = parseProviderOrder(process.env.MARKET_DATA_PROVIDERS);
+
+// Providers that rate-limited us, with the time they may be called again
+const cooldowns = new Map<MarketDataProviderName, number>();
+
+/**
+ * Asset type of an id saved with the source it came from (the `source` of a quote)
+ * @param source Provider name
+ */
+export const assetTypeOf = (source: string): MarketAssetType => (source === 'dexscreener' ? 'dex_pair' : 'coin');
+
+/**
+ * Find the quote for an asset among quotes from any provider. Coin ids differ between
+ * providers ("btc-bitcoin" on CoinPaprika, "bitcoin" on CoinGecko), and pairs may be saved with their chain.
+ * @param quotes Quotes to search
+ * @param assetId Saved coin id or pair address
+ * @param source Provider the id came from
+ * @returns The quote, or null
+ */
+export const findQuote = (quotes: MarketQuote[], assetId: string, source: string): MarketQuote | null => {
+  const id = assetId.toLowerCase();
+  return quotes.find(quote => {
+    if (assetTypeOf(quote.source) !== assetTypeOf(source)) return false;
+    const quoteId = quote.id.toLowerCase();
+    if (quote.source === 'dexscreener') {
+      return quoteId === id.slice(id.indexOf(':') + 1);
+    }
+    return quoteId === id || quoteId.endsWith(`-${id}`) || id.endsWith(`-${quoteId}`);
+  }) || null;
+};
+
+/**
+ * Currency a provider quotes in when asked for a currency: itself if native, otherwise USD
+ */
+const quoteCurrency = (provider: MarketDataProvider, currency: Currency): Currency =>
+  provider.nativeCurrencies?.includes(currency) ? currency : 'usd';
+
+/**
+ * Tag a result with the currency its provider quoted in
+ */
+const withCurrency = <T>(result: ProviderResult<T>, currency: Currency): QuotedResult<T> => ({
+  ...result,
+  currency: quoteCurrency(PROVIDERS[result.provider], currency)
+});
+
+/**
+ * A provider's own id for a coin, from the asset registry ("btc-bitcoin" on CoinPaprika is
+ * "bitcoin" on CoinGecko). The id is kept if the registry cannot translate it.
+ */
+const providerId = async (provider: MarketDataProvider, id: string): Promise<string> => {
+  try {
+    return (await assetRegistryService.toProviderIds([id], provider.name))[0];
+  } catch (error) {
+    console.error(`Error translating ${id} for ${provider.name}:`, (error as Error).message);
+    return id;
+  }
+};
+
+/**
+ * Quote coins on a provider under its own ids; the quotes carry the ids as requested
+ */
+const quoteWithProviderIds = async (provider: MarketDataProvider, ids: string[], currency: Currency) => {
+  let providerIds = ids;
+  try {
+    providerIds = await assetRegistryService.toProviderIds(ids, provider.name);
+  } catch (error) {
+    console.error(`Error translating coin ids for ${provider.name}:`, (error as Error).message);
+  }
+  const requested = new Map(providerIds.map((id, index) => [id, ids[index]]));
+  const quotes = await provider.quote(providerIds, currency);
+  return quotes.map(quote => (requested.has(quote.id) ? { ...quote, id: requested.get(quote.id)! } : quote));
+};
+
+/**
+ * Providers to try for a call, in priority order
+ */
+const selectProviders = (selection: ProviderSelection): MarketDataProvider[] => {
+  const names = [...providerOrder];
+  const preferred = selection.preferred as MarketDataProviderName | undefined;
+  if (preferred && names.includes(preferred)) {
+    names.splice(names.indexOf(preferred), 1);
+    names.unshift(preferred);
+  }
+  return names
+    .map(name => PROVIDERS[name])
+    .filter(provider => !selection.assetType || provider.assetType === selection.assetType)
+    .filter(provider => !selection.requires || typeof provider[selection.requires] === 'function');
+};
+
+export const marketDataService = {
+  /**
+   * Run a call against each qualifying provider in priority order until one succeeds.
+   * Providers that are rate-limited are put on cooldown and skipped until it ends.
+   * @param selection Asset type, preferred provider and required capability
+   * @param call Call to make on a provider
+   * @returns The data and the provider that returned it
+   */
+  withFailover: async <T>(
+    selection: ProviderSelection,
+    call: (provider: MarketDataProvider) => Promise<T>
+  ): Promise<ProviderResult<T>> => {
+    const candidates = selectProviders(selection);
+    if (candidates.length === 0) {
+      throw new MarketDataError('No market data provider is configured for this request', 'unsupported');
+    }
+
+    const errors: MarketDataError[] = [];
+    for (const provider of candidates) {
+      const cooldownUntil = cooldowns.get(provider.name);
+      if (cooldownUntil && cooldownUntil > Date.now()) {
+        errors.push(new MarketDataError(`${provider.name} is rate-limited`, 'rate_limited', provider.name,
+          Math.ceil((cooldownUntil - Date.now()) / 1000)));
+        continue;
+      }
+
+      try {
+        return { data: await call(provider), provider: provider.name };
+      } catch (error) {
+        const marketError = toMarketDataError(provider.name, error);
+        errors.push(marketError);
+        if (marketError.kind === 'rate_limited') {
+          const seconds = marketError.retryAfter || DEFAULT_RATE_LIMIT_COOLDOWN_SECONDS;
+          cooldowns.set(provider.name, Date.now() + seconds * 1000);
+          console.warn(`${provider.name} rate limit reached, skipping it for ${seconds}s`);
+        } else if (marketError.kind === 'unavailable') {
+          console.error(`Market data provider ${provider.name} failed:`, marketError.message);
+        }
+      }
+    }
+
+    // Report "not found" only if no provider failed for another reason
+    const relevant = errors.filter(error => error.kind !== 'unsupported');
+    if (relevant.length > 0 && relevant.every(error => error.kind === 'not_found')) {
+      throw new MarketDataError('Asset not found', 'not_found');
+    }
+    if (relevant.length > 0 && relevant.every(error => error.kind === 'rate_limited')) {
+      const retryAfter = Math.min(...relevant.map(error => error.retryAfter || DEFAULT_RATE_LIMIT_COOLDOWN_SECONDS));
+      throw new MarketDataError('All market data providers are rate-limited', 'rate_limited', undefined, retryAfter);
+    }
+    throw new MarketDataError(
+      `All market data providers failed: ${errors.map(error => error.message).join('; ')}`,
+      relevant.length > 0 ? 'unavailable' : 'unsupported'
+    );
+  },
+
+  /**
+   * Search listed coins or DEX pairs.
+   * Priced calls ask providers for the currency when they quote it natively; otherwise
+   * prices are in USD. The result's currency says which, for the caller to convert.
+   * @param query Search query
+   * @param assetType Coins or DEX pairs
+   * @param limit Maximum number of results
+   * @param currency Currency to quote in, where the provider supports it
+   */
+  search: async (query: string, assetType: MarketAssetType, limit: number = 5, currency: Currency = 'usd') =>
+    withCurrency(await marketDataService.withFailover(
+      { assetType },
+      provider => provider.search(query, limit, quoteCurrency(provider, currency))
+    ), currency),
+
+  /**
+   * Get quotes for several assets. Coin quotes carry the ids as requested, whichever provider answered.
+   * @param ids Coin ids or pair addresses
+   * @param assetType Coins or DEX pairs
+   * @param preferred Provider to try first
+   * @param currency Currency to quote in, where the provider supports it
+   */
+  quote: async (ids: string[], assetType: MarketAssetType = 'coin', preferred?: string, currency: Currency = 'usd') =>
+    withCurrency(await marketDataService.withFailover(
+      { assetType, preferred },
+      provider => quoteWithProviderIds(provider, ids, quoteCurrency(provider, currency))
+    ), currency),
+
+  /**
+   * Get details of an asset
+   * @param id Coin id or pair address
+   * @param assetType Coins or DEX pairs
+   * @param preferred Provider to try first
+   * @param currency Currency to quote in, where the provider supports it
+   */
+  details: async (id: string, assetType: MarketAssetType = 'coin', preferred?: string, currency: Currency = 'usd') =>
+    withCurrency(await marketDataService.withFailover(
+      { assetType, preferred },
+      async provider => provider.details(await providerId(provider, id), quoteCurrency(provider, currency))
+    ), currency),
+
+  /**
+   * Get daily (or finer) price history of a coin
+   * @param id Coin id
+   * @param days Number of days back
+   * @param preferred Provider to try first
+   * @param currency Currency to quote in, where the provider supports it
+   */
+  history: async (id: string, days: number, preferred?: string, currency: Currency = 'usd') =>
+    withCurrency(await marketDataService.withFailover(
+      { assetType: 'coin', preferred },
+      async provider => provider.history(await providerId(provider, id), days, quoteCurrency(provider, currency))
+    ), currency),
+
+  /**
+   * Get OHLCV candles of a coin or DEX pair. Candles served at a finer resolution
+   * than requested are merged into the requested interval.
+   * @param id Coin id or pair address
+   * @param assetType Coins or DEX pairs
+   * @param interval Candle interval
+   * @param from Start of the range (ms, inclusive)
+   * @param to End of the range (ms, inclusive)
+   * @param preferred Provider to try first
+   * @param currency Currency to quote in, where the provider supports it
+   * @returns Candles in ascending order, the provider used and the currency it quoted in
+   */
+  ohlcv: async (
+    id: string,
+    assetType: MarketAssetType,
+    interval: CandleInterval,
+    from: number,
+    to: number,
+    preferred?: string,
+    currency: Currency = 'usd'
+  ): Promise<QuotedResult<Candle[]>> => {
+    const result = await marketDataService.withFailover(
+      { assetType, preferred, requires: 'ohlcv' },
+      async provider => provider.ohlcv!(await providerId(provider, id), interval, from, to, quoteCurrency(provider, currency))
+    );
+    const { candles, resolution } = result.data;
+    const merged = CANDLE_INTERVAL_MS[resolution] < CANDLE_INTERVAL_MS[interval]
+      ? aggregateCandles(candles, interval)
+      : candles;
+
+    return {
+      data: merged
+        .filter(candle => candle.timestamp >= from && candle.timestamp <= to)
+        .sort((a, b) => a.timestamp - b.timestamp),
+      provider: result.provider,
+      currency: quoteCurrency(PROVIDERS[result.provider], currency)
+    };
+  },
+
+  /**
+   * Get the largest coins by market cap, in USD
+   * @param limit Number of coins
+   */
+  topCoins: (limit: number) =>
+    marketDataService.withFailover({ assetType: 'coin', requires: 'topCoins' }, provider => provider.topCoins!(limit)),
+
+  /**
+   * Get the most recently created DEX pairs on a chain, in USD
+   * @param chain Dexscreener chain id (e.g. 'solana', 'ethereum')
+   * @param limit Number of pairs
+   */
+  newPairs: (chain: string, limit: number) =>
+    marketDataService.withFailover({ assetType: 'dex_pair', requires: 'newPairs' }, provider => provider.newPairs!(chain, limit)),
+
+  /**
+   * Get the share of a token's supply held by its 10 largest holders (%)
+   * @param chain Dexscreener chain id
+   * @param tokenAddress Contract or mint address
+   */
+  holderConcentration: (chain: string, tokenAddress: string) =>
+    marketDataService.withFailover(
+      { requires: 'holderConcentration' },
+      provider => provider.holderConcentration!(chain, tokenAddress)
+    ),
+
+  /**
+   * Get USD prices of tokens by contract or mint address
+   * @param chain Chain the tokens live on
+   * @param addresses Token addresses
+   */
+  tokenPrices: (chain: TokenChain, addresses: string[]) =>
+    marketDataService.withFailover({ requires: 'tokenPrices' }, provider => provider.tokenPrices!(chain, addresses)),
+
+  /**
+   * Get USD quotes of tokens by contract or mint address, from their most liquid pair
+   * @param chain Dexscreener chain id
+   * @param addresses Token addresses
+   */
+  tokenQuotes: (chain: string, addresses: string[]) =>
+    marketDataService.withFailover({ requires: 'tokenQuotes' }, provider => provider.tokenQuotes!(chain, addresses)),
+
+  /**
+   * Providers in priority order, with their rate-limit cooldowns
+   */
+  getProviderStatus: () => providerOrder.map(name => ({
+    name,
+    assetType: PROVIDERS[name].assetType,
+    rateLimitedUntil: (cooldowns.get(name) || 0) > Date.now() ? new Date(cooldowns.get(name)!) : null
+  }))
+};
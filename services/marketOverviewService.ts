@@ -0,0 +1,126 @@
+import { cacheService, CachedResult } from './cacheService';
+import { marketDataService } from './marketDataService';
+import { MarketDataProviderName, MarketQuote } from './marketData/types';
+import { CACHE_POLICIES } from '../config/cache';
+
+// Coins ranked for the overview sections (the largest by market cap)
+const OVERVIEW_UNIVERSE_SIZE = 250;
+
+// Items kept per section in a snapshot; pages are cut from these
+export const OVERVIEW_SECTION_SIZE = 100;
+
+// Coins with less 24h volume (USD) are left out of gainers and losers
+const MIN_MOVER_VOLUME_USD = Number(process.env.MARKET_OVERVIEW_MIN_VOLUME_USD || 100000);
+
+// Dexscreener chain ids listed under new pairs
+export const OVERVIEW_CHAINS = (process.env.MARKET_OVERVIEW_CHAINS || 'solana,ethereum,base,bsc')
+  .split(',')
+  .map(chain => chain.trim().toLowerCase())
+  .filter(Boolean);
+
+const SNAPSHOT_CACHE_KEY = 'crypto:market:overview';
+
+export const OVERVIEW_SECTIONS = ['topMarketCap', 'gainers', 'losers', 'highestVolume', 'newPairs'] as const;
+
+export type OverviewSection = typeof OVERVIEW_SECTIONS[number];
+
+// Market overview prices are in USD; requests convert them
+export interface MarketOverviewSnapshot {
+  generatedAt: string;
+  topMarketCap: MarketQuote[];
+  gainers: MarketQuote[];
+  losers: MarketQuote[];
+  highestVolume: MarketQuote[];
+  // Newest first, by chain
+  newPairs: Record<string, MarketQuote[]>;
+  // Provider used for coins and for each chain's new pairs (null if it failed)
+  providers: {
+    coins: MarketDataProviderName | null;
+    newPairs: Record<string, MarketDataProviderName | null>;
+  };
+}
+
+/**
+ * Build a snapshot from the providers. Each part is fetched independently; a part
+ * that fails is left empty rather than failing the whole snapshot.
+ */
+const buildSnapshot = async (): Promise<MarketOverviewSnapshot> => {
+  const [coinResult, ...pairResults] = await Promise.allSettled([
+    marketDataService.topCoins(OVERVIEW_UNIVERSE_SIZE),
+    ...OVERVIEW_CHAINS.map(chain => marketDataService.newPairs(chain, OVERVIEW_SECTION_SIZE))
+  ]);
+
+  if (coinResult.status === 'rejected' && pairResults.every(result => result.status === 'rejected')) {
+    throw coinResult.reason;
+  }
+  if (coinResult.status === 'rejected') {
+    console.error('Error fetching top coins for market overview:', (coinResult.reason as Error).message);
+  }
+
+  const coins = coinResult.status === 'fulfilled' ? coinResult.value.data : [];
+  const movers = coins.filter(coin => coin.volume24h >= MIN_MOVER_VOLUME_USD);
+  const newPairs: Record<string, MarketQuote[]> = {};
+  const pairProviders: Record<string, MarketDataProviderName | null> = {};
+  OVERVIEW_CHAINS.forEach((chain, index) => {
+    const result = pairResults[index];
+    if (result.status === 'rejected') {
+      console.error(`Error fetching new ${chain} pairs for market overview:`, (result.reason as Error).message);
+    }
+    newPairs[chain] = result.status === 'fulfilled' ? result.value.data : [];
+    pairProviders[chain] = result.status === 'fulfilled' ? result.value.provider : null;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    topMarketCap: [...coins].sort((a, b) => (b.marketCap || 0) - (a.marketCap || 0)).slice(0, OVERVIEW_SECTION_SIZE),
+    gainers: movers.filter(coin => coin.priceChange24h > 0)
+      .sort((a, b) => b.priceChange24h - a.priceChange24h)
+      .slice(0, OVERVIEW_SECTION_SIZE),
+    losers: movers.filter(coin => coin.priceChange24h < 0)
+      .sort((a, b) => a.priceChange24h - b.priceChange24h)
+      .slice(0, OVERVIEW_SECTION_SIZE),
+    highestVolume: [...coins].sort((a, b) => b.volume24h - a.volume24h).slice(0, OVERVIEW_SECTION_SIZE),
+    newPairs,
+    providers: {
+      coins: coinResult.status === 'fulfilled' ? coinResult.value.provider : null,
+      newPairs: pairProviders
+    }
+  };
+};
+
+// Snapshots missing a part are served but not kept, so the next request retries
+const isComplete = (snapshot: MarketOverviewSnapshot) =>
+  !!snapshot.providers.coins && Object.values(snapshot.providers.newPairs).every(Boolean);
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+export const marketOverviewService = {
+  /**
+   * Get the current snapshot, building it if none is cached
+   */
+  getSnapshot: (): Promise<CachedResult<MarketOverviewSnapshot>> =>
+    cacheService.wrap(SNAPSHOT_CACHE_KEY, CACHE_POLICIES.marketOverview, buildSnapshot, isComplete),
+
+  /**
+   * Rebuild the snapshot on a fixed interval so requests are served from the cache
+   * @param intervalSeconds Seconds between rebuilds
+   */
+  startScheduler: (intervalSeconds: number) => {
+    if (refreshTimer) return;
+    const refresh = () => cacheService.refresh(SNAPSHOT_CACHE_KEY, CACHE_POLICIES.marketOverview, buildSnapshot, isComplete)
+      .catch(error => console.error('Error refreshing market overview:', error));
+    refresh();
+    refreshTimer = setInterval(refresh, intervalSeconds * 1000);
+    refreshTimer.unref();
+  },
+
+  /**
+   * Stop the scheduler started with startScheduler
+   */
+  stopScheduler: () => {
+    if (refreshTimer) {
+      clearInterval(refreshTimer);
+      refreshTimer = null;
+    }
+  }
+};
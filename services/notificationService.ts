@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { mailService } from './mailService';
+
+export const NOTIFICATION_CHANNELS = ['webhook', 'push', 'email'] as const;
+
+export type NotificationChannelType = typeof NOTIFICATION_CHANNELS[number];
+
+export interface Notification {
+  title: string;
+  body: string;
+  // Machine-readable payload (webhook body, push data)
+  data: Record<string, unknown>;
+}
+
+// A channel delivers a notification to a target (webhook URL, push token or email address);
+// swap one with notificationService.setChannel
+export interface NotificationChannel {
+  type: NotificationChannelType;
+  // Error message if the target cannot be used with this channel
+  validateTarget(target: string): Promise<string | null>;
+  send(target: string, notification: Notification): Promise<void>;
+}
+
+// Signs webhook bodies so receivers can check they come from us
+const WEBHOOK_SIGNING_SECRET = process.env.WEBHOOK_SIGNING_SECRET || '';
+const EXPO_PUSH_ENDPOINT = process.env.EXPO_PUSH_ENDPOINT || 'https://exp.host/--/api/v2/push/send';
+
+/**
+ * Whether an IP address is on the public internet. Loopback, private, link-local,
+ * unique-local, carrier-grade NAT, multicast and other reserved ranges are not.
+ */
+const isPublicAddress = (address: string): boolean => {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return !(a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b < 128)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32)
+      || (a === 192 && (b === 0 || b === 168))
+      || (a === 198 && (b === 18 || b === 19)));
+  }
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    // IPv4-mapped addresses are judged by the IPv4 address
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPublicAddress(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPublicAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+    }
+    return !(normalized === '::' || normalized === '::1'
+      || /^f[cd]/.test(normalized)
+      || /^fe[89ab]/.test(normalized)
+      || normalized.startsWith('ff'));
+  }
+  return false;
+};
+
+/**
+ * Error message if a webhook URL is not HTTPS or its host is not on the public internet
+ */
+const checkWebhookTarget = async (target: string): Promise<string | null> => {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return 'Invalid webhook URL';
+  }
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address)) ? null : 'Webhook URL must point to a public host';
+  } catch {
+    return 'Webhook host could not be resolved';
+  }
+};
+
+// Checks the addresses a webhook host resolves to when connecting, so a host cannot pass
+// checkWebhookTarget and then resolve to an internal address
+const webhookAgent = new https.Agent({
+  lookup: (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '');
+      if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+        return callback(new Error(`Webhook host ${hostname} does not resolve to a public address`), '');
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  }
+});
+
+/**
+ * POST the notification as JSON to an HTTPS URL on a public host
+ */
+export const webhookChannel: NotificationChannel = {
+  type: 'webhook',
+  validateTarget: checkWebhookTarget,
+  send: async (target, notification) => {
+    // Checked again at send time: the host may resolve elsewhere than when the alert was saved
+    const targetError = await checkWebhookTarget(target);
+    if (targetError) {
+      throw new Error(targetError);
+    }
+    const body = JSON.stringify({ title: notification.title, body: notification.body, ...notification.data });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (WEBHOOK_SIGNING_SECRET) {
+      headers['X-Snix-Signature'] = crypto.createHmac('sha256', WEBHOOK_SIGNING_SECRET).update(body).digest('hex');
+    }
+    await axios({ method: 'post', url: target, data: body, headers, timeout: 10000, maxRedirects: 0, httpsAgent: webhookAgent });
+  }
+};
+
+/**
+ * Send a push notification to an Expo push token (the mobile app)
+ */
+export const expoPushChannel: NotificationChannel = {
+  type: 'push',
+  validateTarget: async (target) =>
+    /^Expo(nent)?PushToken\[.+\]$/.test(target) ? null : 'Invalid push token',
+  send: async (target, notification) => {
+    const response = await axios({
+      method: 'post',
+      url: EXPO_PUSH_ENDPOINT,
+      data: { to: target, title: notification.title, body: notification.body, data: notification.data },
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      timeout: 10000
+    });
+    // Expo answers 200 with a per-message status
+    const ticket = Array.isArray(response.data?.data) ? response.data.data[0] : response.data?.data;
+    if (ticket?.status === 'error') {
+      throw new Error(ticket.message || 'Push notification rejected');
+    }
+  }
+};
+
+/**
+ * Send the notification by email through the mail service
+ */
+export const emailChannel: NotificationChannel = {
+  type: 'email',
+  validateTarget: async (target) =>
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(target) ? null : 'Invalid email address',
+  send: async (target, notification) => {
+    const sent = await mailService.send({ to: target, subject: notification.title, text: notification.body });
+    if (!sent) {
+      throw new Error('Email could not be sent');
+    }
+  }
+};
+
+const channels: Record<NotificationChannelType, NotificationChannel> = {
+  webhook: webhookChannel,
+  push: expoPushChannel,
+  email: emailChannel
+};
+
+export const notificationService = {
+  /**
+   * Replace the channel used for a channel type
+   * @param channel Channel to use for subsequent notifications
+   */
+  setChannel: (channel: NotificationChannel) => {
+    channels[channel.type] = channel;
+  },
+
+  /**
+   * Check a target before saving it
+   * @param type Channel type
+   * @param target Webhook URL, push token or email address
+   * @returns Error message, or null if the target is usable
+   */
+  validateTarget: (type: NotificationChannelType, target: string) => channels[type].validateTarget(target),
+
+  /**
+   * Deliver a notification; throws if the channel fails
+   * @param type Channel type
+   * @param target Webhook URL, push token or email address
+   * @param notification Notification to send
+   */
+  send: (type: NotificationChannelType, target: string, notification: Notification) =>
+    channels[type].send(target, notification)
+};
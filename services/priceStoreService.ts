@@ -0,0 +1,355 @@
+import mongoose from 'mongoose';
+import { findQuote, marketDataService } from './marketDataService';
+import { assetRegistryService } from './assetRegistryService';
+import { MarketAssetType, MarketQuote, PricePoint } from './marketData/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Retention per resolution, in days (0 keeps points forever)
+const SAMPLE_RETENTION_DAYS = Number(process.env.PRICE_SAMPLE_RETENTION_DAYS || 7);
+const HOURLY_RETENTION_DAYS = Number(process.env.PRICE_HOURLY_RETENTION_DAYS || 90);
+const DAILY_RETENTION_DAYS = Number(process.env.PRICE_DAILY_RETENTION_DAYS || 0);
+
+// Gaps longer than this many steps of a series are filled from the providers
+const MAX_GAP_STEPS = 2;
+
+// An asset whose price is collected; coins by id, DEX pairs as "chain:pairAddress" or pair address
+export interface TrackedAsset {
+  assetType: MarketAssetType;
+  assetId: string;
+}
+
+// A collection whose assets should be collected (watchlists, alerts, wallets)
+export interface TrackedAssetSource {
+  name: string;
+  listAssets(): Promise<TrackedAsset[]>;
+}
+
+export type PriceResolution = 'sample' | 'hour' | 'day';
+
+// Stored points of an asset at one resolution, in USD
+export interface StoredHistory {
+  resolution: PriceResolution;
+  // Expected time between points (ms)
+  stepMs: number;
+  points: PricePoint[];
+}
+
+/**
+ * Schema of a price time series: samples, or hourly or daily rollups with open/high/low
+ */
+const priceSeriesSchema = (granularity: 'minutes' | 'hours', retentionDays: number) => new mongoose.Schema({
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  asset: {
+    assetType: {
+      type: String,
+      enum: ['coin', 'dex_pair'],
+      required: true
+    },
+    assetId: {
+      type: String,
+      required: true
+    }
+  },
+  // Last price in the period
+  price: {
+    type: Number,
+    required: true
+  },
+  open: Number,
+  high: Number,
+  low: Number,
+  volume24h: Number,
+  marketCap: Number
+}, {
+  timeseries: { timeField: 'timestamp', metaField: 'asset', granularity },
+  ...(retentionDays > 0 ? { expireAfterSeconds: retentionDays * 86400 } : {}),
+  versionKey: false
+});
+
+const PriceSample = mongoose.model('PriceSample', priceSeriesSchema('minutes', SAMPLE_RETENTION_DAYS));
+const PriceHourly = mongoose.model('PriceHourly', priceSeriesSchema('hours', HOURLY_RETENTION_DAYS));
+const PriceDaily = mongoose.model('PriceDaily', priceSeriesSchema('hours', DAILY_RETENTION_DAYS));
+
+type PriceSeriesModel = typeof PriceSample;
+
+const sources: TrackedAssetSource[] = [];
+
+let collectorTimer: NodeJS.Timeout | null = null;
+let collecting = false;
+// Time between samples, set when the collector starts
+let sampleStepMs = 5 * 60 * 1000;
+
+/**
+ * Id an asset is stored under: coins by their CoinPaprika id where the registry knows it,
+ * so "bitcoin" and "btc-bitcoin" share one series
+ */
+const canonicalId = async (assetType: MarketAssetType, assetId: string) => {
+  if (assetType === 'dex_pair') return assetId;
+  try {
+    return (await assetRegistryService.toProviderIds([assetId], 'coinpaprika'))[0];
+  } catch {
+    return assetId;
+  }
+};
+
+/**
+ * Query matching an asset's points; a pair address without its chain matches any chain
+ */
+const assetFilter = (assetType: MarketAssetType, assetId: string) => ({
+  'asset.assetType': assetType,
+  'asset.assetId': assetType === 'dex_pair' && !assetId.includes(':')
+    ? { $regex: `(^|:)${assetId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$` }
+    : assetId
+});
+
+/**
+ * Series to read for a range: samples for a day or less, hourly up to 90 days, daily beyond
+ */
+const seriesFor = (from: number, to: number): { model: PriceSeriesModel; resolution: PriceResolution; stepMs: number } => {
+  if (to - from <= DAY_MS) return { model: PriceSample, resolution: 'sample', stepMs: sampleStepMs };
+  if (to - from <= 90 * DAY_MS) return { model: PriceHourly, resolution: 'hour', stepMs: HOUR_MS };
+  return { model: PriceDaily, resolution: 'day', stepMs: DAY_MS };
+};
+
+const ROLLUP_MODELS: Record<Exclude<PriceResolution, 'sample'>, PriceSeriesModel> = {
+  hour: PriceHourly,
+  day: PriceDaily
+};
+
+/**
+ * Roll a finer series up into completed hours or days. Periods after the newest
+ * rollup are aggregated, so each period is written once.
+ * @returns Number of rollup points written
+ */
+const rollUp = async (source: PriceSeriesModel, target: PriceSeriesModel, unit: 'hour' | 'day'): Promise<number> => {
+  const unitMs = unit === 'hour' ? HOUR_MS : DAY_MS;
+  const end = Math.floor(Date.now() / unitMs) * unitMs;
+  const latest = await target.findOne().sort({ timestamp: -1 }).select('timestamp').lean();
+  const start = latest ? latest.timestamp.getTime() + unitMs : 0;
+  if (start >= end) return 0;
+
+  const buckets = await source.aggregate([
+    { $match: { timestamp: { $gte: new Date(start), $lt: new Date(end) } } },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: { asset: '$asset', timestamp: { $dateTrunc: { date: '$timestamp', unit } } },
+        open: { $first: { $ifNull: ['$open', '$price'] } },
+        high: { $max: { $ifNull: ['$high', '$price'] } },
+        low: { $min: { $ifNull: ['$low', '$price'] } },
+        price: { $last: '$price' },
+        volume24h: { $last: '$volume24h' },
+        marketCap: { $last: '$marketCap' }
+      }
+    }
+  ]);
+  if (buckets.length === 0) return 0;
+
+  await target.insertMany(buckets.map(({ _id, ...values }) => ({ ...values, asset: _id.asset, timestamp: _id.timestamp })));
+  return buckets.length;
+};
+
+/**
+ * Quote every tracked asset, coins and DEX pairs each in one batch
+ * @returns Quotes by asset type, with failures logged and skipped
+ */
+const quoteAssets = async (assets: TrackedAsset[]) => {
+  const quotes: Record<MarketAssetType, MarketQuote[]> = { coin: [], dex_pair: [] };
+  for (const assetType of ['coin', 'dex_pair'] as const) {
+    const ids = assets.filter(asset => asset.assetType === assetType).map(asset => asset.assetId);
+    if (ids.length === 0) continue;
+    try {
+      quotes[assetType] = (await marketDataService.quote(ids, assetType)).data;
+    } catch (error) {
+      console.error(`Error collecting ${assetType} prices:`, (error as Error).message);
+    }
+  }
+  return quotes;
+};
+
+export const priceStoreService = {
+  /**
+   * Register a collection whose assets should be collected
+   * @param source Name and loader of the assets
+   */
+  registerSource: (source: TrackedAssetSource) => {
+    if (sources.some(existing => existing.name === source.name)) {
+      throw new Error(`Tracked asset source "${source.name}" is already registered`);
+    }
+    sources.push(source);
+  },
+
+  /**
+   * Store one USD price sample for every tracked asset
+   * @returns Number of samples stored
+   */
+  collect: async (): Promise<number> => {
+    const listed = await Promise.allSettled(sources.map(source => source.listAssets()));
+    const assets = new Map<string, TrackedAsset>();
+    listed.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error listing ${sources[index].name} assets for price collection:`, result.reason);
+        return;
+      }
+      for (const asset of result.value) {
+        assets.set(`${asset.assetType}:${asset.assetId}`, asset);
+      }
+    });
+    if (assets.size === 0) return 0;
+
+    const tracked = Array.from(assets.values());
+    const quotes = await quoteAssets(tracked);
+    const timestamp = new Date();
+    const samples = [];
+    const stored = new Set<string>();
+    for (const asset of tracked) {
+      const quote = findQuote(quotes[asset.assetType], asset.assetId, asset.assetType === 'dex_pair' ? 'dexscreener' : 'coinpaprika');
+      if (!quote) continue;
+      const assetId = asset.assetType === 'dex_pair' && quote.chainId
+        ? `${quote.chainId}:${quote.id}`
+        : await canonicalId(asset.assetType, asset.assetId);
+      if (stored.has(`${asset.assetType}:${assetId}`)) continue;
+      stored.add(`${asset.assetType}:${assetId}`);
+      samples.push({
+        timestamp,
+        asset: { assetType: asset.assetType, assetId },
+        price: quote.price,
+        volume24h: quote.volume24h,
+        marketCap: quote.marketCap
+      });
+    }
+
+    if (samples.length > 0) {
+      await PriceSample.insertMany(samples);
+    }
+    return samples.length;
+  },
+
+  /**
+   * Roll samples up into hours and hours into days
+   * @returns Number of hourly and daily points written
+   */
+  downsample: async () => ({
+    hour: await rollUp(PriceSample, PriceHourly, 'hour'),
+    day: await rollUp(PriceHourly, PriceDaily, 'day')
+  }),
+
+  /**
+   * Collect and downsample on a fixed interval
+   * @param intervalSeconds Seconds between samples
+   */
+  startCollector: (intervalSeconds: number) => {
+    if (collectorTimer) return;
+    sampleStepMs = intervalSeconds * 1000;
+    const run = async () => {
+      if (collecting) return;
+      collecting = true;
+      try {
+        await priceStoreService.collect();
+        await priceStoreService.downsample();
+      } catch (error) {
+        console.error('Error collecting prices:', error);
+      } finally {
+        collecting = false;
+      }
+    };
+    collectorTimer = setInterval(run, intervalSeconds * 1000);
+    collectorTimer.unref();
+    run();
+  },
+
+  /**
+   * Stop the collector started with startCollector
+   */
+  stopCollector: () => {
+    if (collectorTimer) {
+      clearInterval(collectorTimer);
+      collectorTimer = null;
+    }
+  },
+
+  /**
+   * Read stored USD prices of an asset, at the resolution suited to the range
+   * @param assetType Coin or DEX pair
+   * @param assetId Coin id, or pair address (optionally "chain:pairAddress")
+   * @param from Start of the range (ms)
+   * @param to End of the range (ms)
+   */
+  getHistory: async (assetType: MarketAssetType, assetId: string, from: number, to: number): Promise<StoredHistory> => {
+    const { model, resolution, stepMs } = seriesFor(from, to);
+    const points = await model.find({
+      ...assetFilter(assetType, await canonicalId(assetType, assetId)),
+      timestamp: { $gte: new Date(from), $lte: new Date(to) }
+    }).sort({ timestamp: 1 }).lean();
+
+    return {
+      resolution,
+      stepMs,
+      points: points.map(point => ({
+        timestamp: point.timestamp.getTime(),
+        price: point.price,
+        volume: point.volume24h ?? undefined,
+        marketCap: point.marketCap ?? undefined
+      }))
+    };
+  },
+
+  /**
+   * Ranges of a stored history with no points, longer than MAX_GAP_STEPS steps
+   * @param history Stored history
+   * @param from Start of the requested range (ms)
+   * @param to End of the requested range (ms)
+   * @returns [start, end] ranges (ms)
+   */
+  findGaps: (history: StoredHistory, from: number, to: number): [number, number][] => {
+    const maxGap = history.stepMs * MAX_GAP_STEPS;
+    const edges = [from, ...history.points.map(point => point.timestamp), to];
+    const gaps: [number, number][] = [];
+    for (let index = 1; index < edges.length; index++) {
+      if (edges[index] - edges[index - 1] > maxGap) gaps.push([edges[index - 1], edges[index]]);
+    }
+    return gaps;
+  },
+
+  /**
+   * Store provider points filling gaps in an hourly or daily series. Only points older
+   * than the newest rollup are kept, so later rollups never duplicate them.
+   * @param assetType Coin or DEX pair
+   * @param assetId Coin id or pair address
+   * @param resolution Series the points belong to
+   * @param points USD points
+   * @returns Number of points stored
+   */
+  backfill: async (assetType: MarketAssetType, assetId: string, resolution: PriceResolution, points: PricePoint[]) => {
+    if (resolution === 'sample' || points.length === 0) return 0;
+    const model = ROLLUP_MODELS[resolution];
+    const latest = await model.findOne().sort({ timestamp: -1 }).select('timestamp').lean();
+    const before = latest ? latest.timestamp.getTime() : 0;
+    const id = await canonicalId(assetType, assetId);
+
+    // One point per period, at its start like rolled-up points
+    const periodMs = resolution === 'hour' ? HOUR_MS : DAY_MS;
+    const byPeriod = new Map<number, PricePoint>();
+    for (const point of points) {
+      const period = Math.floor(point.timestamp / periodMs) * periodMs;
+      if (period + periodMs <= before) byPeriod.set(period, point);
+    }
+    const backfilled = Array.from(byPeriod.entries())
+      .map(([period, point]) => ({
+        timestamp: new Date(period),
+        asset: { assetType, assetId: id },
+        price: point.price,
+        volume24h: point.volume,
+        marketCap: point.marketCap
+      }));
+    if (backfilled.length > 0) {
+      await model.insertMany(backfilled);
+    }
+    return backfilled.length;
+  }
+};
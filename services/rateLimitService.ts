@@ -0,0 +1,297 @@
+import mongoose from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+
+// Hits recorded for a key inside a sliding window
+interface WindowState {
+  count: number;
+  oldest: number | null;
+  newest: number | null;
+}
+
+// Backend keeping sliding-window counters and lockouts
+export interface RateLimitStore {
+  // Record a hit and return the window state including it
+  hit(key: string, windowMs: number): Promise<WindowState>;
+  // Window state without recording a hit
+  peek(key: string, windowMs: number): Promise<WindowState>;
+  reset(key: string): Promise<void>;
+  lock(key: string, until: Date): Promise<void>;
+  // Time (ms since epoch) the key is locked until, or null
+  lockedUntil(key: string): Promise<number | null>;
+}
+
+// Outcome of a rate limit check
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+  message?: string;
+}
+
+// Options of the rateLimit() middleware
+interface RateLimitOptions {
+  name: string;
+  windowMs: number;
+  max: number;
+  message?: string;
+  keyGenerator?: (req: Request) => string;
+}
+
+const MINUTE = 60 * 1000;
+
+// Login protection policy
+const LOGIN_WINDOW_MS = 15 * MINUTE;
+// Failed attempts per account before each further attempt is delayed
+const ACCOUNT_FREE_ATTEMPTS = 3;
+const ACCOUNT_MAX_DELAY_MS = 60 * 1000;
+// Failed attempts per account before it is locked
+const ACCOUNT_LOCKOUT_THRESHOLD = 10;
+const ACCOUNT_LOCKOUT_MS = 15 * MINUTE;
+// Failed attempts per IP, across all accounts, before the IP is locked
+const IP_LOCKOUT_THRESHOLD = 50;
+const IP_LOCKOUT_MS = 15 * MINUTE;
+
+/**
+ * Sliding-window store kept in process memory (single instance deployments)
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const hits = new Map<string, number[]>();
+  const locks = new Map<string, number>();
+
+  const prune = (key: string, windowMs: number) => {
+    const since = Date.now() - windowMs;
+    const recent = (hits.get(key) || []).filter(at => at > since);
+    if (recent.length > 0) {
+      hits.set(key, recent);
+    } else {
+      hits.delete(key);
+    }
+    return recent;
+  };
+
+  const state = (recent: number[]): WindowState => ({
+    count: recent.length,
+    oldest: recent.length ? recent[0] : null,
+    newest: recent.length ? recent[recent.length - 1] : null
+  });
+
+  // Drop stale entries now and then so idle keys do not accumulate
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, timestamps] of hits) {
+      if (timestamps[timestamps.length - 1] < now - 24 * 60 * MINUTE) hits.delete(key);
+    }
+    for (const [key, until] of locks) {
+      if (until <= now) locks.delete(key);
+    }
+  }, 10 * MINUTE);
+  cleanup.unref();
+
+  return {
+    hit: async (key, windowMs) => {
+      const recent = prune(key, windowMs);
+      recent.push(Date.now());
+      hits.set(key, recent);
+      return state(recent);
+    },
+    peek: async (key, windowMs) => state(prune(key, windowMs)),
+    reset: async (key) => {
+      hits.delete(key);
+      locks.delete(key);
+    },
+    lock: async (key, until) => {
+      locks.set(key, until.getTime());
+    },
+    lockedUntil: async (key) => {
+      const until = locks.get(key);
+      return until && until > Date.now() ? until : null;
+    }
+  };
+};
+
+/**
+ * Sliding-window store kept in MongoDB (shared between instances)
+ */
+export const createMongoStore = (): RateLimitStore => {
+  const hitSchema = new mongoose.Schema({
+    key: { type: String, required: true },
+    at: { type: Date, required: true },
+    expiresAt: { type: Date, required: true }
+  });
+  hitSchema.index({ key: 1, at: 1 });
+  hitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  const lockSchema = new mongoose.Schema({
+    key: { type: String, required: true, unique: true },
+    lockedUntil: { type: Date, required: true }
+  });
+  lockSchema.index({ lockedUntil: 1 }, { expireAfterSeconds: 0 });
+
+  const RateLimitHit = mongoose.model('RateLimitHit', hitSchema);
+  const RateLimitLock = mongoose.model('RateLimitLock', lockSchema);
+
+  const peek = async (key: string, windowMs: number): Promise<WindowState> => {
+    const since = new Date(Date.now() - windowMs);
+    const [count, oldest, newest] = await Promise.all([
+      RateLimitHit.countDocuments({ key, at: { $gt: since } }),
+      RateLimitHit.findOne({ key, at: { $gt: since } }).sort({ at: 1 }).select('at').lean(),
+      RateLimitHit.findOne({ key, at: { $gt: since } }).sort({ at: -1 }).select('at').lean()
+    ]);
+    return {
+      count,
+      oldest: oldest ? oldest.at.getTime() : null,
+      newest: newest ? newest.at.getTime() : null
+    };
+  };
+
+  return {
+    hit: async (key, windowMs) => {
+      const now = Date.now();
+      await RateLimitHit.create({ key, at: new Date(now), expiresAt: new Date(now + windowMs) });
+      return peek(key, windowMs);
+    },
+    peek,
+    reset: async (key) => {
+      await Promise.all([RateLimitHit.deleteMany({ key }), RateLimitLock.deleteOne({ key })]);
+    },
+    lock: async (key, until) => {
+      await RateLimitLock.updateOne({ key }, { lockedUntil: until }, { upsert: true });
+    },
+    lockedUntil: async (key) => {
+      const lock = await RateLimitLock.findOne({ key }).lean();
+      return lock && lock.lockedUntil.getTime() > Date.now() ? lock.lockedUntil.getTime() : null;
+    }
+  };
+};
+
+let store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'mongo' ? createMongoStore() : createMemoryStore();
+
+const secondsUntil = (time: number) => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+/**
+ * Progressive delay required after a number of failed attempts
+ */
+const failureDelayMs = (failures: number) => {
+  if (failures < ACCOUNT_FREE_ATTEMPTS) return 0;
+  return Math.min(ACCOUNT_MAX_DELAY_MS, 1000 * 2 ** (failures - ACCOUNT_FREE_ATTEMPTS));
+};
+
+/**
+ * Send a 429 response with a Retry-After header
+ */
+export const sendTooManyRequests = (res: Response, decision: RateLimitDecision) => {
+  res.set('Retry-After', String(decision.retryAfterSeconds || 1));
+  return res.status(429).json({
+    error: decision.message || 'Too many requests, please try again later',
+    retryAfter: decision.retryAfterSeconds
+  });
+};
+
+export const rateLimitService = {
+  /**
+   * Replace the active store
+   * @param newStore Store to use for subsequent checks
+   */
+  setStore: (newStore: RateLimitStore) => {
+    store = newStore;
+  },
+
+  /**
+   * Check whether a login attempt may proceed for an IP and account
+   * @param ip Client IP
+   * @param account Account identifier (normalized email or wallet address)
+   */
+  checkLogin: async (ip: string, account: string): Promise<RateLimitDecision> => {
+    const [ipLock, accountLock] = await Promise.all([
+      store.lockedUntil(`login:ip:${ip}`),
+      store.lockedUntil(`login:account:${account}`)
+    ]);
+    const lockedUntil = Math.max(ipLock || 0, accountLock || 0);
+    if (lockedUntil) {
+      return {
+        allowed: false,
+        retryAfterSeconds: secondsUntil(lockedUntil),
+        message: 'Too many failed login attempts. Try again later.'
+      };
+    }
+
+    // Each failure beyond the free attempts doubles the wait before the next try
+    const failures = await store.peek(`login:account:${account}`, LOGIN_WINDOW_MS);
+    const delay = failureDelayMs(failures.count);
+    if (delay > 0 && failures.newest && failures.newest + delay > Date.now()) {
+      return {
+        allowed: false,
+        retryAfterSeconds: secondsUntil(failures.newest + delay),
+        message: 'Too many failed login attempts. Please wait before trying again.'
+      };
+    }
+
+    return { allowed: true };
+  },
+
+  /**
+   * Record a failed login and lock the account or IP when a threshold is reached
+   * @param ip Client IP
+   * @param account Account identifier
+   */
+  recordLoginFailure: async (ip: string, account: string) => {
+    const [ipFailures, accountFailures] = await Promise.all([
+      store.hit(`login:ip:${ip}`, LOGIN_WINDOW_MS),
+      store.hit(`login:account:${account}`, LOGIN_WINDOW_MS)
+    ]);
+
+    if (accountFailures.count >= ACCOUNT_LOCKOUT_THRESHOLD) {
+      console.warn(`Locking login for account ${account} after ${accountFailures.count} failed attempts`);
+      await store.lock(`login:account:${account}`, new Date(Date.now() + ACCOUNT_LOCKOUT_MS));
+    }
+    if (ipFailures.count >= IP_LOCKOUT_THRESHOLD) {
+      console.warn(`Locking login for IP ${ip} after ${ipFailures.count} failed attempts`);
+      await store.lock(`login:ip:${ip}`, new Date(Date.now() + IP_LOCKOUT_MS));
+    }
+  },
+
+  /**
+   * Clear an account's failed attempts after a successful login
+   * @param account Account identifier
+   */
+  recordLoginSuccess: async (account: string) => {
+    await store.reset(`login:account:${account}`);
+  },
+
+  /**
+   * Count a request against a fixed budget per sliding window
+   * @param key Counter key
+   * @param windowMs Window length
+   * @param max Requests allowed per window
+   */
+  consume: async (key: string, windowMs: number, max: number): Promise<RateLimitDecision> => {
+    const current = await store.peek(key, windowMs);
+    if (current.count >= max) {
+      return {
+        allowed: false,
+        retryAfterSeconds: secondsUntil((current.oldest || Date.now()) + windowMs)
+      };
+    }
+    await store.hit(key, windowMs);
+    return { allowed: true };
+  }
+};
+
+/**
+ * Middleware limiting requests per client IP (or a custom key) over a sliding window
+ * @param options Limiter name, window, budget and optional key generator
+ */
+export const rateLimit = (options: RateLimitOptions) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = `${options.name}:${options.keyGenerator ? options.keyGenerator(req) : req.ip}`;
+      const decision = await rateLimitService.consume(key, options.windowMs, options.max);
+      if (!decision.allowed) {
+        return sendTooManyRequests(res, { ...decision, message: options.message });
+      }
+      next();
+    } catch (error) {
+      // Never lock users out because the limiter's store is unavailable
+      console.error(`Rate limiter ${options.name} failed:`, error);
+      next();
+    }
+  };
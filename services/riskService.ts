@@ -0,0 +1,167 @@
+import { marketDataService } from './marketDataService';
+import { MarketQuote } from './marketData/types';
+
+// Factors are scored 0 (no sign of risk) to 100 (strong sign of a rug pull or scam)
+export type RiskFactorName =
+  | 'liquidity'
+  | 'pairAge'
+  | 'liquidityToMarketCap'
+  | 'holderConcentration'
+  | 'volumeAnomaly'
+  | 'buySellImbalance';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RiskFactor {
+  name: RiskFactorName;
+  // Null when the factor could not be measured; it is then left out of the overall score
+  score: number | null;
+  weight: number;
+  // Measured value (USD, hours, ratio or %), or null
+  value: number | null;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  // Weighted average of the measured factors, 0-100
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+const WEIGHTS: Record<RiskFactorName, number> = {
+  liquidity: 25,
+  pairAge: 20,
+  liquidityToMarketCap: 15,
+  holderConcentration: 20,
+  volumeAnomaly: 10,
+  buySellImbalance: 10
+};
+
+// Fewer trades than this in 24h say nothing about buy/sell balance
+const MIN_TRADES_FOR_BALANCE = 20;
+
+/**
+ * Score a value against thresholds, checked in order
+ * @param value Measured value
+ * @param bands [threshold, score] pairs; the first threshold the value is below wins
+ * @param otherwise Score when the value is above every threshold
+ */
+const band = (value: number, bands: [number, number][], otherwise: number) =>
+  bands.find(([threshold]) => value < threshold)?.[1] ?? otherwise;
+
+const factor = (name: RiskFactorName, score: number | null, value: number | null, detail: string): RiskFactor => ({
+  name,
+  score,
+  weight: WEIGHTS[name],
+  value,
+  detail
+});
+
+const scoreLiquidity = (quote: MarketQuote) => {
+  const liquidity = quote.liquidity || 0;
+  return factor('liquidity',
+    band(liquidity, [[1000, 100], [10000, 80], [50000, 50], [250000, 25], [1000000, 10]], 0),
+    liquidity,
+    `$${Math.round(liquidity).toLocaleString('en-US')} of liquidity`);
+};
+
+const scorePairAge = (quote: MarketQuote) => {
+  if (!quote.createdAt) return factor('pairAge', null, null, 'Pair creation time unknown');
+  const hours = Math.max(0, (Date.now() - quote.createdAt) / 3600000);
+  return factor('pairAge',
+    band(hours, [[1, 100], [24, 80], [7 * 24, 50], [30 * 24, 25], [180 * 24, 10]], 0),
+    Math.round(hours * 10) / 10,
+    hours < 48 ? `Pair created ${Math.round(hours)} hours ago` : `Pair created ${Math.round(hours / 24)} days ago`);
+};
+
+const scoreLiquidityToMarketCap = (quote: MarketQuote) => {
+  if (!quote.marketCap) return factor('liquidityToMarketCap', null, null, 'Market cap unknown');
+  const ratio = (quote.liquidity || 0) / quote.marketCap;
+  return factor('liquidityToMarketCap',
+    band(ratio, [[0.01, 90], [0.03, 60], [0.1, 30]], 0),
+    Math.round(ratio * 10000) / 10000,
+    `Liquidity is ${(ratio * 100).toFixed(2)}% of market cap`);
+};
+
+const scoreHolderConcentration = (topHolderShare: number | null) => {
+  if (topHolderShare === null) return factor('holderConcentration', null, null, 'Holder distribution unknown');
+  return factor('holderConcentration',
+    band(topHolderShare, [[25, 0], [40, 20], [60, 45], [80, 75]], 100),
+    topHolderShare,
+    `Top 10 holders own ${topHolderShare.toFixed(1)}% of supply`);
+};
+
+// Volume far above liquidity suggests wash trading; an hour with most of the day's volume suggests a pump
+const scoreVolumeAnomaly = (quote: MarketQuote) => {
+  if (!quote.activity || !quote.liquidity) return factor('volumeAnomaly', null, null, 'Trading volume unknown');
+  const turnover = quote.volume24h / quote.liquidity;
+  let score = band(turnover, [[5, 0], [20, 25], [50, 60]], 90);
+  let detail = `24h volume is ${turnover.toFixed(1)}x liquidity`;
+  if (quote.volume24h > 0 && quote.activity.volume1h > quote.volume24h / 2 && (quote.createdAt || 0) < Date.now() - 3600000) {
+    score = Math.max(score, 50);
+    detail += `; ${Math.round(quote.activity.volume1h / quote.volume24h * 100)}% of it in the last hour`;
+  }
+  return factor('volumeAnomaly', score, Math.round(turnover * 100) / 100, detail);
+};
+
+// Buys with almost no sells is the mark of a honeypot; mostly sells means holders are leaving
+const scoreBuySellImbalance = (quote: MarketQuote) => {
+  const buys = quote.activity?.buys24h || 0;
+  const sells = quote.activity?.sells24h || 0;
+  if (buys + sells < MIN_TRADES_FOR_BALANCE) {
+    return factor('buySellImbalance', null, null, `Only ${buys + sells} trades in 24h`);
+  }
+  const sellShare = sells / (buys + sells);
+  return factor('buySellImbalance',
+    sellShare > 0.75 ? 50 : band(sellShare, [[0.05, 100], [0.15, 70], [0.25, 35]], 0),
+    Math.round(sellShare * 1000) / 1000,
+    `${buys} buys and ${sells} sells in 24h`);
+};
+
+const levelOf = (score: number): RiskLevel => {
+  if (score < 25) return 'low';
+  if (score < 50) return 'medium';
+  if (score < 75) return 'high';
+  return 'critical';
+};
+
+export const riskService = {
+  /**
+   * Score a DEX pair from its quote
+   * @param quote Dexscreener quote of the pair
+   * @param topHolderShare Share of supply held by the 10 largest holders (%), if known
+   * @returns Overall score and level, and each factor
+   */
+  scorePair: (quote: MarketQuote, topHolderShare: number | null = null): RiskAssessment => {
+    const factors = [
+      scoreLiquidity(quote),
+      scorePairAge(quote),
+      scoreLiquidityToMarketCap(quote),
+      scoreHolderConcentration(topHolderShare),
+      scoreVolumeAnomaly(quote),
+      scoreBuySellImbalance(quote)
+    ];
+    const measured = factors.filter(item => item.score !== null);
+    const totalWeight = measured.reduce((sum, item) => sum + item.weight, 0);
+    const score = Math.round(measured.reduce((sum, item) => sum + item.score! * item.weight, 0) / totalWeight);
+    return { score, level: levelOf(score), factors };
+  },
+
+  /**
+   * Score a DEX pair including its holder distribution. Holder data is best-effort;
+   * without it the factor is left out.
+   * @param quote Dexscreener quote of the pair
+   */
+  assessPair: async (quote: MarketQuote): Promise<RiskAssessment> => {
+    let topHolderShare: number | null = null;
+    if (quote.chainId && quote.tokenAddress) {
+      try {
+        topHolderShare = (await marketDataService.holderConcentration(quote.chainId, quote.tokenAddress)).data;
+      } catch (error) {
+        console.error(`Error fetching holders of ${quote.tokenAddress}:`, (error as Error).message);
+      }
+    }
+    return riskService.scorePair(quote, topHolderShare);
+  }
+};
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Request } from 'express';
+import { accountDataService } from './accountDataService';
+
+// Refresh token lifetime, in days (defaults to 30 days)
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+// Information about the client a session was created from
+export interface ClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Extract the client information recorded with sessions and audit events
+ */
+export const getClientInfo = (req: Request): ClientInfo => ({
+  ip: req.ip,
+  userAgent: req.get('user-agent') || ''
+});
+
+// Result of rotating a refresh token
+interface RotationResult {
+  success: boolean;
+  message?: string;
+  userId?: string;
+  sessionId?: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+// A session is one refresh token family: it starts at login and every
+// rotation replaces its current token while remembering the retired ones,
+// so a replayed (already rotated) token can be detected.
+const sessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  previousTokenHashes: {
+    type: [String],
+    default: []
+  },
+  ip: {
+    type: String,
+    default: ''
+  },
+  userAgent: {
+    type: String,
+    default: ''
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    default: ''
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Let MongoDB remove sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model('Session', sessionSchema);
+
+accountDataService.register({
+  name: 'sessions',
+  exportData: async (userId) => Session.find({ userId })
+    .select('ip userAgent createdAt lastUsedAt expiresAt revokedAt revokedReason')
+    .lean(),
+  deleteData: async (userId) => (await Session.deleteMany({ userId })).deletedCount
+});
+
+/**
+ * Hash a refresh token secret for storage
+ */
+const hashToken = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+/**
+ * Refresh tokens are sent to clients as "<sessionId>.<secret>"
+ */
+const formatRefreshToken = (sessionId: string, secret: string) => `${sessionId}.${secret}`;
+
+const parseRefreshToken = (refreshToken: string) => {
+  const [sessionId, secret] = (refreshToken || '').split('.');
+  if (!sessionId || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+};
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const sessionService = {
+  /**
+   * Start a new session (refresh token family) for a user
+   * @param userId User ID
+   * @param client Client information
+   * @returns The session ID and its first refresh token
+   */
+  createSession: async (userId: string, client: ClientInfo = {}) => {
+    const secret = crypto.randomBytes(48).toString('hex');
+    const session = await Session.create({
+      userId,
+      tokenHash: hashToken(secret),
+      ip: client.ip || '',
+      userAgent: client.userAgent || '',
+      expiresAt: refreshExpiry()
+    });
+
+    const sessionId = session._id.toString();
+    return {
+      sessionId,
+      refreshToken: formatRefreshToken(sessionId, secret),
+      expiresAt: session.expiresAt
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that has
+   * already been rotated revokes the whole session.
+   * @param refreshToken Refresh token presented by the client
+   * @returns Rotation result with the new refresh token
+   */
+  rotateRefreshToken: async (refreshToken: string): Promise<RotationResult> => {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return { success: false, message: 'Invalid refresh token' };
+    }
+
+    const session = await Session.findById(parsed.sessionId);
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return { success: false, message: 'Session expired or revoked' };
+    }
+
+    const presentedHash = hashToken(parsed.secret);
+    if (presentedHash !== session.tokenHash) {
+      if (session.previousTokenHashes.includes(presentedHash)) {
+        console.warn(`Refresh token reuse detected for session ${session._id}, revoking session`);
+        session.revokedAt = new Date();
+        session.revokedReason = 'refresh_token_reuse';
+        await session.save();
+      }
+      return { success: false, message: 'Invalid refresh token' };
+    }
+
+    const secret = crypto.randomBytes(48).toString('hex');
+    session.previousTokenHashes.push(session.tokenHash);
+    session.tokenHash = hashToken(secret);
+    session.lastUsedAt = new Date();
+    session.expiresAt = refreshExpiry();
+    await session.save();
+
+    const sessionId = session._id.toString();
+    return {
+      success: true,
+      userId: session.userId.toString(),
+      sessionId,
+      refreshToken: formatRefreshToken(sessionId, secret),
+      expiresAt: session.expiresAt
+    };
+  },
+
+  /**
+   * Check that a session exists, belongs to the user and has not been revoked
+   * @param sessionId Session ID from the access token
+   * @param userId User ID from the access token
+   */
+  isSessionActive: async (sessionId: string, userId: string): Promise<boolean> => {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await Session.findById(sessionId).select('userId revokedAt expiresAt').lean();
+    return !!session
+      && session.userId.toString() === userId
+      && !session.revokedAt
+      && session.expiresAt.getTime() > Date.now();
+  },
+
+  /**
+   * Count sessions that are neither revoked nor expired
+   */
+  countActiveSessions: async (): Promise<number> => {
+    return Session.countDocuments({ revokedAt: null, expiresAt: { $gt: new Date() } });
+  },
+
+  /**
+   * Revoke a single session
+   * @param sessionId Session ID
+   * @param userId Owner of the session
+   * @param reason Why the session was revoked
+   * @returns Whether a session was revoked
+   */
+  revokeSession: async (sessionId: string, userId: string, reason: string = 'logout'): Promise<boolean> => {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const result = await Session.updateOne(
+      { _id: sessionId, userId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount > 0;
+  },
+
+  /**
+   * Revoke every active session of a user
+   * @param userId User ID
+   * @param reason Why the sessions were revoked
+   * @param exceptSessionId Session to keep alive, if any
+   * @returns Number of revoked sessions
+   */
+  revokeAllSessions: async (userId: string, reason: string = 'logout_all', exceptSessionId?: string): Promise<number> => {
+    const filter: Record<string, any> = { userId, revokedAt: null };
+    if (exceptSessionId) {
+      filter._id = { $ne: exceptSessionId };
+    }
+    const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+    return result.modifiedCount;
+  }
+};
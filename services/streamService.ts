@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { Currency } from '../config/currencies';
+
+// What a client can subscribe to: a listed coin, a DEX pair or a wallet address
+export const STREAM_TOPICS = ['coin', 'pair', 'wallet'] as const;
+
+export type StreamTopic = typeof STREAM_TOPICS[number];
+
+// Open streams allowed per user, over all transports
+const MAX_CONNECTIONS_PER_USER = Number(process.env.STREAM_MAX_CONNECTIONS_PER_USER || 5);
+
+// Subscriptions allowed per stream
+export const MAX_STREAM_SUBSCRIPTIONS = Number(process.env.STREAM_MAX_SUBSCRIPTIONS || 50);
+
+export interface StreamSubscription {
+  topic: StreamTopic;
+  // Coin id, pair address or wallet address
+  id: string;
+  // Provider to try first, for coins
+  source?: string;
+}
+
+export type StreamMessage =
+  | { type: 'update'; topic: StreamTopic; id: string; source?: string; currency: Currency; data: unknown; timestamp: number }
+  | { type: 'subscribed' | 'unsubscribed'; topic: StreamTopic; id: string; source?: string }
+  | { type: 'error'; topic?: StreamTopic; id?: string; error: string };
+
+// Loads the current value of a subscription; polled on the topic's interval
+export interface StreamTopicSource {
+  intervalSeconds: number;
+  load: (subscription: StreamSubscription, currency: Currency) => Promise<unknown>;
+}
+
+// One open WebSocket or SSE stream
+export interface StreamConnection {
+  id: string;
+  userId: string;
+  currency: Currency;
+  send: (message: StreamMessage) => void;
+  // Poller keys
+  subscriptions: Set<string>;
+}
+
+// Shared by every connection subscribed to the same subscription and currency
+interface Poller {
+  subscription: StreamSubscription;
+  currency: Currency;
+  connections: Set<StreamConnection>;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+  // Last value sent, serialized to detect changes
+  last: string | null;
+  lastMessage: StreamMessage | null;
+}
+
+const sources = new Map<StreamTopic, StreamTopicSource>();
+const pollers = new Map<string, Poller>();
+const connectionsByUser = new Map<string, Set<StreamConnection>>();
+
+const pollerKey = (subscription: StreamSubscription, currency: Currency) =>
+  `${subscription.topic}:${subscription.source || ''}:${subscription.id}:${currency}`;
+
+/**
+ * Load a poller's value and send it to its connections if it changed since the last poll
+ */
+const poll = async (poller: Poller) => {
+  if (poller.polling) return;
+  poller.polling = true;
+  const { subscription, currency } = poller;
+  let message: StreamMessage;
+  try {
+    const data = await sources.get(subscription.topic)!.load(subscription, currency);
+    message = { type: 'update', ...subscription, currency, data, timestamp: Date.now() };
+  } catch (error) {
+    console.error(`Error polling stream ${pollerKey(subscription, currency)}:`, (error as Error).message);
+    message = { type: 'error', topic: subscription.topic, id: subscription.id, error: 'Failed to load update' };
+  } finally {
+    poller.polling = false;
+  }
+
+  const serialized = JSON.stringify(message.type === 'update' ? message.data : message);
+  if (serialized === poller.last) return;
+  poller.last = serialized;
+  poller.lastMessage = message;
+  poller.connections.forEach(connection => connection.send(message));
+};
+
+export const streamService = {
+  /**
+   * Register how a topic's values are loaded. Called once per topic at startup.
+   * @param topic Topic
+   * @param source Loader and polling interval
+   */
+  registerTopic: (topic: StreamTopic, source: StreamTopicSource) => {
+    sources.set(topic, source);
+  },
+
+  /**
+   * Open a stream for a user
+   * @param userId User opening the stream
+   * @param currency Currency to quote prices in
+   * @param send Delivers a message to the client
+   * @returns The connection, or an error message when the user has too many streams open
+   */
+  connect: (userId: string, currency: Currency, send: StreamConnection['send']): StreamConnection | string => {
+    const open = connectionsByUser.get(userId) || new Set<StreamConnection>();
+    if (open.size >= MAX_CONNECTIONS_PER_USER) {
+      return `At most ${MAX_CONNECTIONS_PER_USER} streams can be open at once`;
+    }
+    const connection: StreamConnection = {
+      id: crypto.randomUUID(),
+      userId,
+      currency,
+      send,
+      subscriptions: new Set()
+    };
+    open.add(connection);
+    connectionsByUser.set(userId, open);
+    return connection;
+  },
+
+  /**
+   * Whether a user can open another stream
+   */
+  canConnect: (userId: string) => (connectionsByUser.get(userId)?.size || 0) < MAX_CONNECTIONS_PER_USER,
+
+  /**
+   * Subscribe a connection. The first subscriber to a value starts its poller; later ones
+   * share it and get the last value straight away.
+   * @returns Null, or an error message when the connection is at its subscription limit
+   */
+  subscribe: (connection: StreamConnection, subscription: StreamSubscription): string | null => {
+    const source = sources.get(subscription.topic);
+    if (!source) {
+      return `Unknown topic: ${subscription.topic}`;
+    }
+    const key = pollerKey(subscription, connection.currency);
+    if (connection.subscriptions.has(key)) {
+      return null;
+    }
+    if (connection.subscriptions.size >= MAX_STREAM_SUBSCRIPTIONS) {
+      return `At most ${MAX_STREAM_SUBSCRIPTIONS} subscriptions per stream`;
+    }
+    connection.subscriptions.add(key);
+
+    const existing = pollers.get(key);
+    if (existing) {
+      existing.connections.add(connection);
+      if (existing.lastMessage) connection.send(existing.lastMessage);
+      return null;
+    }
+
+    const poller: Poller = {
+      subscription,
+      currency: connection.currency,
+      connections: new Set([connection]),
+      timer: setInterval(() => poll(poller), source.intervalSeconds * 1000),
+      polling: false,
+      last: null,
+      lastMessage: null
+    };
+    poller.timer.unref();
+    pollers.set(key, poller);
+    poll(poller);
+    return null;
+  },
+
+  /**
+   * Unsubscribe a connection; the poller stops when nobody is left on it
+   */
+  unsubscribe: (connection: StreamConnection, subscription: StreamSubscription) => {
+    const key = pollerKey(subscription, connection.currency);
+    connection.subscriptions.delete(key);
+    const poller = pollers.get(key);
+    if (!poller) return;
+    poller.connections.delete(connection);
+    if (poller.connections.size === 0) {
+      clearInterval(poller.timer);
+      pollers.delete(key);
+    }
+  },
+
+  /**
+   * Close a connection and drop its subscriptions
+   */
+  disconnect: (connection: StreamConnection) => {
+    Array.from(pollers.entries())
+      .filter(([key]) => connection.subscriptions.has(key))
+      .forEach(([, poller]) => streamService.unsubscribe(connection, poller.subscription));
+    connection.subscriptions.clear();
+
+    const open = connectionsByUser.get(connection.userId);
+    open?.delete(connection);
+    if (open && open.size === 0) {
+      connectionsByUser.delete(connection.userId);
+    }
+  },
+
+  /**
+   * Number of open streams and running pollers
+   */
+  getStats: () => ({
+    connections: Array.from(connectionsByUser.values()).reduce((sum, open) => sum + open.size, 0),
+    users: connectionsByUser.size,
+    pollers: pollers.size
+  })
+};
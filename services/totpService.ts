@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+
+// RFC 6238 parameters (the defaults every authenticator app supports)
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Accept codes from one step before and after the current one to allow for clock drift
+const TOTP_WINDOW = 1;
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Snix';
+
+const BACKUP_CODE_COUNT = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Key used to encrypt TOTP secrets at rest
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET || '')
+  .digest();
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+/**
+ * Decode an RFC 4648 base32 string (padding and case are ignored)
+ */
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * Compute the HOTP value (RFC 4226) for a counter
+ */
+const hotp = (key: Buffer, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+const currentStep = (now: number = Date.now()) => Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+const hashBackupCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+export const totpService = {
+  /**
+   * Generate a new random base32 TOTP secret
+   */
+  generateSecret: (): string => base32Encode(crypto.randomBytes(20)),
+
+  /**
+   * Build the otpauth:// URI used to enroll an authenticator app (usually shown as a QR code)
+   * @param secret Base32 secret
+   * @param accountName Account label, typically the user's email
+   */
+  buildOtpAuthUri: (secret: string, accountName: string): string => {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  },
+
+  /**
+   * Verify a TOTP code against a secret
+   * @param secret Base32 secret
+   * @param code Code entered by the user
+   * @param lastUsedStep Time step of the last accepted code, to prevent replays
+   * @returns The matched time step, or null if the code is invalid
+   */
+  verifyCode: (secret: string, code: string, lastUsedStep: number = -1): number | null => {
+    const normalized = (code || '').replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = base32Decode(secret);
+    const step = currentStep();
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const candidate = step + offset;
+      if (candidate <= lastUsedStep) continue;
+      const expected = hotp(key, candidate);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return candidate;
+      }
+    }
+    return null;
+  },
+
+  /**
+   * Generate a fresh set of one-time backup codes
+   * @returns The plain codes (shown once to the user) and their hashes (stored)
+   */
+  generateBackupCodes: () => {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashBackupCode) };
+  },
+
+  /**
+   * Find a backup code among stored hashes
+   * @param code Code entered by the user
+   * @param hashes Stored backup code hashes
+   * @returns Index of the matching hash, or -1
+   */
+  findBackupCode: (code: string, hashes: string[]): number => hashes.indexOf(hashBackupCode(code || '')),
+
+  /**
+   * Encrypt a secret for storage (AES-256-GCM)
+   */
+  encryptSecret: (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  },
+
+  /**
+   * Decrypt a secret produced by encryptSecret
+   */
+  decryptSecret: (payload: string): string => {
+    const [iv, tag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+};
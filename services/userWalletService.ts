@@ -0,0 +1,345 @@
+import mongoose from 'mongoose';
+import { detectBlockchain, normalizeWalletAddress } from './walletService';
+import { accountDataService } from './accountDataService';
+import { priceStoreService } from './priceStoreService';
+import { chainRegistry } from './chainRegistry';
+import { ChainAdapter } from './chains/types';
+
+// Error type
+interface ApiError extends Error {
+  message: string;
+}
+
+// Options when attaching a wallet to a user
+interface AddWalletOptions {
+  label?: string;
+  verified?: boolean;
+  makePrimary?: boolean;
+}
+
+// Wallets linked to a user account (a user can hold several per chain)
+const userWalletSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  address: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Id of a chain in the registry
+  blockchain: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (chain: string) => !!chainRegistry.get(chain),
+      message: 'Unsupported blockchain: {VALUE}'
+    }
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: 50,
+    default: ''
+  },
+  // Whether ownership was proven with a signature
+  verified: {
+    type: Boolean,
+    default: false
+  },
+  isPrimary: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A user links an address once; a verified address belongs to a single user
+userWalletSchema.index({ userId: 1, address: 1 }, { unique: true });
+userWalletSchema.index({ address: 1 }, { unique: true, partialFilterExpression: { verified: true } });
+
+const UserWallet = mongoose.model('UserWallet', userWalletSchema);
+
+type UserWalletDocument = InstanceType<typeof UserWallet>;
+
+export const LAST_SIGN_IN_WALLET_MESSAGE =
+  'This is the only way to sign in to your account. Set a password or verify another wallet before removing it';
+
+accountDataService.register({
+  name: 'wallets',
+  exportData: async (userId) => UserWallet.find({ userId })
+    .select('address blockchain label verified isPrimary createdAt')
+    .lean(),
+  deleteData: async (userId) => (await UserWallet.deleteMany({ userId })).deletedCount
+});
+
+// Prices of held native coins are collected into the local price history
+priceStoreService.registerSource({
+  name: 'wallets',
+  listAssets: async () => (await UserWallet.distinct('blockchain'))
+    .map(blockchain => chainRegistry.get(blockchain))
+    .filter((adapter): adapter is ChainAdapter => !!adapter)
+    .map(adapter => ({ assetType: 'coin' as const, assetId: adapter.nativeCoinId }))
+});
+
+/**
+ * Format a wallet for API responses
+ */
+const formatWallet = (wallet: UserWalletDocument) => ({
+  id: wallet._id,
+  address: wallet.address,
+  blockchain: wallet.blockchain,
+  label: wallet.label,
+  verified: wallet.verified,
+  isPrimary: wallet.isPrimary,
+  createdAt: wallet.createdAt
+});
+
+/**
+ * Make a wallet the user's only primary wallet
+ */
+const setPrimary = async (userId: string, walletId: mongoose.Types.ObjectId | string) => {
+  await UserWallet.updateMany({ userId, _id: { $ne: walletId } }, { isPrimary: false });
+  await UserWallet.updateOne({ userId, _id: walletId }, { isPrimary: true });
+};
+
+export const userWalletService = {
+  /**
+   * List a user's wallets, primary first
+   * @param userId User ID
+   */
+  listWallets: async (userId: string) => {
+    try {
+      const wallets = await UserWallet.find({ userId }).sort({ isPrimary: -1, createdAt: 1 });
+      return { success: true, wallets: wallets.map(formatWallet) };
+    } catch (error: unknown) {
+      console.error('Error in listWallets:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list wallets', error: apiError.message };
+    }
+  },
+
+  /**
+   * Address of the user's primary wallet ('' if the user has none)
+   * @param userId User ID
+   */
+  getPrimaryAddress: async (userId: string): Promise<string> => {
+    const wallet = await UserWallet.findOne({ userId, isPrimary: true }).select('address').lean();
+    return wallet?.address || '';
+  },
+
+  /**
+   * Find the owner of a verified wallet
+   * @param address Wallet address
+   * @returns User ID, or null if no user has proven ownership of the address
+   */
+  findVerifiedOwner: async (address: string): Promise<string | null> => {
+    const normalized = normalizeWalletAddress(address);
+    if (!normalized) {
+      return null;
+    }
+    const wallet = await UserWallet.findOne({ address: normalized, verified: true }).select('userId').lean();
+    return wallet ? wallet.userId.toString() : null;
+  },
+
+  /**
+   * Attach a wallet to a user, or update it if already attached
+   * @param userId User ID
+   * @param address Wallet address
+   * @param options Label, verified flag and whether to make it primary
+   */
+  addWallet: async (userId: string, address: string, options: AddWalletOptions = {}) => {
+    try {
+      const normalized = normalizeWalletAddress(address);
+      const blockchain = detectBlockchain(address);
+      if (!normalized || !blockchain) {
+        return { success: false, message: 'Invalid wallet address format' };
+      }
+
+      if (options.verified) {
+        const owner = await UserWallet.findOne({ address: normalized, verified: true, userId: { $ne: userId } });
+        if (owner) {
+          return { success: false, message: 'This wallet is already linked to another account' };
+        }
+      }
+
+      let wallet = await UserWallet.findOne({ userId, address: normalized });
+      if (!wallet) {
+        wallet = new UserWallet({ userId, address: normalized, blockchain });
+      }
+      if (options.label !== undefined) {
+        wallet.label = options.label;
+      }
+      // Never downgrade a wallet that was already verified
+      if (options.verified) {
+        wallet.verified = true;
+      }
+      await wallet.save();
+
+      const hasPrimary = await UserWallet.exists({ userId, isPrimary: true });
+      if (options.makePrimary || !hasPrimary) {
+        await setPrimary(userId, wallet._id);
+        wallet.isPrimary = true;
+      }
+
+      return { success: true, wallet: formatWallet(wallet) };
+    } catch (error: unknown) {
+      console.error('Error in addWallet:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to add wallet', error: apiError.message };
+    }
+  },
+
+  /**
+   * Rename a wallet
+   * @param userId User ID
+   * @param walletId Wallet ID
+   * @param label New label
+   */
+  renameWallet: async (userId: string, walletId: string, label: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(walletId)) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      const wallet = await UserWallet.findOneAndUpdate(
+        { _id: walletId, userId },
+        { label },
+        { new: true, runValidators: true }
+      );
+      if (!wallet) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      return { success: true, wallet: formatWallet(wallet) };
+    } catch (error: unknown) {
+      console.error('Error in renameWallet:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to rename wallet', error: apiError.message };
+    }
+  },
+
+  /**
+   * Make a wallet the user's primary wallet
+   * @param userId User ID
+   * @param walletId Wallet ID
+   */
+  setPrimaryWallet: async (userId: string, walletId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(walletId)) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      const wallet = await UserWallet.findOne({ _id: walletId, userId });
+      if (!wallet) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      await setPrimary(userId, wallet._id);
+      wallet.isPrimary = true;
+      return { success: true, wallet: formatWallet(wallet) };
+    } catch (error: unknown) {
+      console.error('Error in setPrimaryWallet:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to set primary wallet', error: apiError.message };
+    }
+  },
+
+  /**
+   * Remove a wallet; the oldest remaining wallet becomes primary if needed. The last verified
+   * wallet of an account without a password cannot be removed.
+   * @param userId User ID
+   * @param walletId Wallet ID
+   */
+  removeWallet: async (userId: string, walletId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(walletId)) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      const wallet = await UserWallet.findOne({ _id: walletId, userId });
+      if (!wallet) {
+        return { success: false, message: 'Wallet not found' };
+      }
+      // Accounts without a password sign in with a verified wallet; keep at least one
+      if (wallet.verified) {
+        const user = await mongoose.connection.collection('users').findOne(
+          { _id: new mongoose.Types.ObjectId(userId) },
+          { projection: { password: 1 } }
+        );
+        const otherVerified = await UserWallet.exists({ userId, verified: true, _id: { $ne: wallet._id } });
+        if (!user?.password && !otherVerified) {
+          return { success: false, message: LAST_SIGN_IN_WALLET_MESSAGE };
+        }
+      }
+      await UserWallet.deleteOne({ _id: wallet._id });
+
+      if (wallet.isPrimary) {
+        const next = await UserWallet.findOne({ userId }).sort({ createdAt: 1 });
+        if (next) {
+          await setPrimary(userId, next._id);
+        }
+      }
+      return { success: true, message: 'Wallet removed' };
+    } catch (error: unknown) {
+      console.error('Error in removeWallet:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to remove wallet', error: apiError.message };
+    }
+  },
+
+  /**
+   * Move the legacy single `walletAddress` field of users into the wallets collection.
+   * Safe to run repeatedly: migrated users no longer have the field.
+   * @returns Number of migrated users
+   */
+  migrateLegacyWalletAddresses: async (): Promise<number> => {
+    const users = mongoose.connection.collection('users');
+    const cursor = users.find(
+      { walletAddress: { $exists: true } },
+      { projection: { walletAddress: 1, walletVerified: 1 } }
+    );
+
+    let migrated = 0;
+    for await (const user of cursor) {
+      const address = (user.walletAddress || '').trim();
+      if (address) {
+        const normalized = normalizeWalletAddress(address);
+        const blockchain = detectBlockchain(address);
+        if (!normalized || !blockchain) {
+          console.warn(`Skipping invalid legacy wallet address for user ${user._id}`);
+          continue;
+        }
+
+        try {
+          const hasPrimary = await UserWallet.exists({ userId: user._id, isPrimary: true });
+          await UserWallet.updateOne(
+            { userId: user._id, address: normalized },
+            {
+              $setOnInsert: {
+                blockchain,
+                label: '',
+                verified: !!user.walletVerified,
+                isPrimary: !hasPrimary,
+                createdAt: new Date()
+              }
+            },
+            { upsert: true }
+          );
+        } catch (error) {
+          console.error(`Error migrating wallet address for user ${user._id}:`, error);
+          continue;
+        }
+      }
+
+      await users.updateOne({ _id: user._id }, { $unset: { walletAddress: '', walletVerified: '' } });
+      migrated++;
+    }
+
+    if (migrated > 0) {
+      console.log(`✅ Migrated wallet addresses of ${migrated} users to the wallets collection`);
+    }
+    return migrated;
+  }
+};
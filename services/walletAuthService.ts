@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { accountDataService } from './accountDataService';
+import { chainRegistry } from './chainRegistry';
+import { normalizeWalletAddress } from './walletService';
+
+// Domain and URI the signed messages are bound to (EIP-4361)
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN || 'snix.app';
+const SIWE_URI = process.env.SIWE_URI || process.env.APP_URL || 'https://snix.app';
+
+// How long a nonce (and the message built around it) stays valid, in minutes
+const NONCE_TTL_MINUTES = 10;
+
+// Sign in, prove ownership to link a wallet, or confirm deleting an account without a password
+export type WalletAuthPurpose = 'login' | 'link' | 'delete_account';
+
+// Result of verifying a signed wallet message
+interface WalletVerification {
+  success: boolean;
+  message?: string;
+  address?: string;
+  blockchain?: string;
+  purpose?: WalletAuthPurpose;
+  userId?: string;
+}
+
+// Fields of an EIP-4361 style message
+interface SignInMessageFields {
+  domain: string;
+  address: string;
+  account: string;
+  uri: string;
+  version: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+// Nonces handed out for wallet sign-in; each can be used once
+const walletNonceSchema = new mongoose.Schema({
+  nonce: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  address: {
+    type: String,
+    required: true
+  },
+  // Id of a chain in the registry
+  blockchain: {
+    type: String,
+    required: true,
+    validate: {
+      validator: (chain: string) => !!chainRegistry.get(chain),
+      message: 'Unsupported blockchain: {VALUE}'
+    }
+  },
+  purpose: {
+    type: String,
+    enum: ['login', 'link', 'delete_account'],
+    required: true
+  },
+  // Account the wallet is being linked to or that is being deleted (not set for "login")
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Let MongoDB remove nonces once they have expired
+walletNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const WalletNonce = mongoose.model('WalletNonce', walletNonceSchema);
+
+accountDataService.register({
+  name: 'walletLinkChallenges',
+  exportData: async (userId) => WalletNonce.find({ userId })
+    .select('address blockchain purpose usedAt expiresAt')
+    .lean(),
+  deleteData: async (userId) => (await WalletNonce.deleteMany({ userId })).deletedCount
+});
+
+/**
+ * Build the message the wallet has to sign
+ */
+const buildMessage = (fields: Omit<SignInMessageFields, 'domain' | 'uri' | 'version'>, statement: string) => [
+  `${SIWE_DOMAIN} wants you to sign in with your ${fields.account} account:`,
+  fields.address,
+  '',
+  statement,
+  '',
+  `URI: ${SIWE_URI}`,
+  'Version: 1',
+  `Chain ID: ${fields.chainId}`,
+  `Nonce: ${fields.nonce}`,
+  `Issued At: ${fields.issuedAt}`,
+  `Expiration Time: ${fields.expirationTime}`
+].join('\n');
+
+/**
+ * Parse a message produced by buildMessage
+ */
+const parseMessage = (message: string): SignInMessageFields | null => {
+  const lines = (message || '').replace(/\r\n/g, '\n').split('\n');
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your (.+) account:$/);
+  if (!header || !lines[1]) {
+    return null;
+  }
+
+  const field = (name: string) => {
+    const line = lines.find(l => l.startsWith(`${name}: `));
+    return line ? line.slice(name.length + 2) : '';
+  };
+
+  return {
+    domain: header[1],
+    account: header[2],
+    address: lines[1].trim(),
+    uri: field('URI'),
+    version: field('Version'),
+    chainId: field('Chain ID'),
+    nonce: field('Nonce'),
+    issuedAt: field('Issued At'),
+    expirationTime: field('Expiration Time')
+  };
+};
+
+export const walletAuthService = {
+  /**
+   * Create a nonce and the message the wallet has to sign
+   * @param address Wallet address
+   * @param purpose Sign in ("login"), prove ownership for an existing account ("link"), or
+   *                confirm deleting the account ("delete_account")
+   * @param userId Account the challenge is for (not set for "login")
+   * @returns The message to sign, or an error message if the address is invalid or its
+   *          chain does not support wallet sign-in
+   */
+  createChallenge: async (address: string, purpose: WalletAuthPurpose, userId?: string) => {
+    const adapter = chainRegistry.resolve(address);
+    const normalized = adapter?.normalizeAddress(address);
+    if (!adapter || !normalized) {
+      return 'Invalid wallet address format';
+    }
+    if (!adapter.signIn) {
+      return `Wallet sign-in is not supported on ${adapter.name}`;
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MINUTES * 60 * 1000);
+
+    await WalletNonce.create({
+      nonce,
+      address: normalized,
+      blockchain: adapter.chain,
+      purpose,
+      userId: userId || null,
+      expiresAt
+    });
+
+    const statement = {
+      login: 'Sign in to Snix with this wallet.',
+      link: 'Link this wallet to your Snix account.',
+      delete_account: 'Permanently delete your Snix account and all of its data.'
+    }[purpose];
+
+    return {
+      address: normalized,
+      blockchain: adapter.chain,
+      nonce,
+      message: buildMessage({
+        account: adapter.name,
+        address: normalized,
+        chainId: adapter.signIn.chainId,
+        nonce,
+        issuedAt: issuedAt.toISOString(),
+        expirationTime: expiresAt.toISOString()
+      }, statement),
+      expiresAt
+    };
+  },
+
+  /**
+   * Verify a signed message and consume its nonce
+   * @param message The exact message that was signed
+   * @param signature Signature, in the encoding the wallet's chain uses
+   * @param purpose Expected purpose of the nonce
+   * @returns Verification result with the proven address
+   */
+  verifySignedMessage: async (message: string, signature: string, purpose: WalletAuthPurpose): Promise<WalletVerification> => {
+    const fields = parseMessage(message);
+    if (!fields || !fields.nonce) {
+      return { success: false, message: 'Malformed sign-in message' };
+    }
+
+    // The chain the message names, among those the address is valid on
+    const adapter = chainRegistry.matching(fields.address).find(item => item.name === fields.account);
+    const address = adapter?.normalizeAddress(fields.address);
+    if (!adapter || !address) {
+      return { success: false, message: 'Invalid wallet address in message' };
+    }
+    if (!adapter.signIn) {
+      return { success: false, message: `Wallet sign-in is not supported on ${adapter.name}` };
+    }
+
+    if (fields.domain !== SIWE_DOMAIN || fields.uri !== SIWE_URI || fields.version !== '1'
+      || fields.chainId !== adapter.signIn.chainId) {
+      return { success: false, message: 'Sign-in message does not match this server' };
+    }
+
+    const expirationTime = Date.parse(fields.expirationTime);
+    if (!expirationTime || expirationTime <= Date.now()) {
+      return { success: false, message: 'Sign-in message has expired' };
+    }
+
+    if (!adapter.signIn.verifySignature(address, message, signature)) {
+      return { success: false, message: 'Invalid signature' };
+    }
+
+    // Consume the nonce atomically so a signed message cannot be replayed
+    const nonce = await WalletNonce.findOneAndUpdate(
+      {
+        nonce: fields.nonce,
+        address,
+        blockchain: adapter.chain,
+        purpose,
+        usedAt: null,
+        expiresAt: { $gt: new Date() }
+      },
+      { usedAt: new Date() },
+      { new: true }
+    );
+    if (!nonce) {
+      return { success: false, message: 'Invalid or expired nonce' };
+    }
+
+    return {
+      success: true,
+      address,
+      blockchain: adapter.chain,
+      purpose,
+      userId: nonce.userId ? nonce.userId.toString() : undefined
+    };
+  }
+};
@@ -0,0 +1,395 @@
+import mongoose from 'mongoose';
+import { accountDataService } from './accountDataService';
+import { assetTypeOf, findQuote, marketDataService } from './marketDataService';
+import { fxService } from './fxService';
+import { priceStoreService } from './priceStoreService';
+import { MarketAssetType, MarketDataProviderName, MarketQuote } from './marketData/types';
+import { Currency } from '../config/currencies';
+
+// Limits per user
+const MAX_WATCHLISTS_PER_USER = 20;
+const MAX_ITEMS_PER_WATCHLIST = 100;
+
+// Sources an item can come from, as returned in the `source` field of search results
+export const WATCHLIST_SOURCES: MarketDataProviderName[] = ['coinpaprika', 'coingecko', 'dexscreener'];
+
+// Error type
+interface ApiError extends Error {
+  message: string;
+}
+
+// Asset to add to a watchlist
+export interface WatchlistItemInput {
+  // Coin id, or pair address (optionally "chain:pairAddress") for Dexscreener
+  assetId: string;
+  source: MarketDataProviderName;
+}
+
+const watchlistItemSchema = new mongoose.Schema({
+  assetId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  source: {
+    type: String,
+    enum: WATCHLIST_SOURCES,
+    required: true
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Named lists of coins and DEX pairs; items are kept in the order the user chose
+const watchlistSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50
+  },
+  // Order of the list among the user's lists
+  position: {
+    type: Number,
+    default: 0
+  },
+  items: {
+    type: [watchlistItemSchema],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+watchlistSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+const Watchlist = mongoose.model('Watchlist', watchlistSchema);
+
+type WatchlistDocument = InstanceType<typeof Watchlist>;
+
+accountDataService.register({
+  name: 'watchlists',
+  exportData: async (userId) => Watchlist.find({ userId })
+    .sort({ position: 1 })
+    .select('name position items createdAt updatedAt')
+    .lean(),
+  deleteData: async (userId) => (await Watchlist.deleteMany({ userId })).deletedCount
+});
+
+// Prices of watched assets are collected into the local price history
+priceStoreService.registerSource({
+  name: 'watchlists',
+  listAssets: async () => {
+    const items = await Watchlist.aggregate([
+      { $unwind: '$items' },
+      { $group: { _id: { assetId: '$items.assetId', source: '$items.source' } } }
+    ]);
+    return items.map(({ _id }) => ({ assetType: assetTypeOf(_id.source), assetId: _id.assetId }));
+  }
+});
+
+/**
+ * Format a watchlist for API responses
+ */
+const formatWatchlist = (watchlist: WatchlistDocument) => ({
+  id: watchlist._id,
+  name: watchlist.name,
+  position: watchlist.position,
+  items: watchlist.items.map(item => ({
+    id: item._id,
+    assetId: item.assetId,
+    source: item.source,
+    addedAt: item.addedAt
+  })),
+  createdAt: watchlist.createdAt,
+  updatedAt: watchlist.updatedAt
+});
+
+/**
+ * Whether a list of ids is exactly a set of existing ids, in some order
+ */
+const isPermutation = (ids: string[], existing: string[]) =>
+  ids.length === existing.length && new Set(ids).size === ids.length && ids.every(id => existing.includes(id));
+
+/**
+ * Find one of a user's watchlists
+ */
+const findWatchlist = async (userId: string, watchlistId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(watchlistId)) {
+    return null;
+  }
+  return Watchlist.findOne({ _id: watchlistId, userId });
+};
+
+export const watchlistService = {
+  /**
+   * List a user's watchlists in their chosen order, without quotes
+   * @param userId User ID
+   */
+  listWatchlists: async (userId: string) => {
+    try {
+      const watchlists = await Watchlist.find({ userId }).sort({ position: 1, createdAt: 1 });
+      return { success: true, watchlists: watchlists.map(formatWatchlist) };
+    } catch (error: unknown) {
+      console.error('Error in listWatchlists:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to list watchlists', error: apiError.message };
+    }
+  },
+
+  /**
+   * Get a watchlist with live quotes for its items, fetched in one batch per asset type
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   * @param currency Currency to quote prices in
+   */
+  getWatchlist: async (userId: string, watchlistId: string, currency: Currency = 'usd') => {
+    try {
+      const watchlist = await findWatchlist(userId, watchlistId);
+      if (!watchlist) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+
+      const formatted = formatWatchlist(watchlist);
+      const quotes: MarketQuote[] = [];
+      const providers: Partial<Record<MarketAssetType, MarketDataProviderName>> = {};
+      for (const assetType of ['coin', 'dex_pair'] as MarketAssetType[]) {
+        const ids = formatted.items.filter(item => assetTypeOf(item.source) === assetType).map(item => item.assetId);
+        if (ids.length === 0) continue;
+
+        // Quotes are best-effort: the list is still returned if a provider is down
+        try {
+          const result = await marketDataService.quote(ids, assetType, undefined, currency);
+          const rate = await fxService.getRate(result.currency, currency);
+          quotes.push(...result.data.map(quote => fxService.convertQuote(quote, rate)));
+          providers[assetType] = result.provider;
+        } catch (error) {
+          console.error(`Error quoting ${assetType} watchlist items:`, (error as Error).message);
+        }
+      }
+
+      return {
+        success: true,
+        watchlist: {
+          ...formatted,
+          items: formatted.items.map(item => ({
+            ...item,
+            quote: findQuote(quotes, item.assetId, item.source)
+          }))
+        },
+        providers,
+        currency
+      };
+    } catch (error: unknown) {
+      console.error('Error in getWatchlist:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to get watchlist', error: apiError.message };
+    }
+  },
+
+  /**
+   * Create a watchlist at the end of the user's lists
+   * @param userId User ID
+   * @param name List name
+   * @param items Initial items
+   */
+  createWatchlist: async (userId: string, name: string, items: WatchlistItemInput[] = []) => {
+    try {
+      const count = await Watchlist.countDocuments({ userId });
+      if (count >= MAX_WATCHLISTS_PER_USER) {
+        return { success: false, message: `You can have at most ${MAX_WATCHLISTS_PER_USER} watchlists` };
+      }
+      if (items.length > MAX_ITEMS_PER_WATCHLIST) {
+        return { success: false, message: `A watchlist can hold at most ${MAX_ITEMS_PER_WATCHLIST} items` };
+      }
+      if (await Watchlist.exists({ userId, name: name.trim() })) {
+        return { success: false, message: 'A watchlist with this name already exists' };
+      }
+
+      const last = await Watchlist.findOne({ userId }).sort({ position: -1 }).select('position');
+      const unique = items.filter((item, index) =>
+        items.findIndex(other => other.assetId === item.assetId && other.source === item.source) === index);
+      const watchlist = await Watchlist.create({
+        userId,
+        name,
+        position: last ? last.position + 1 : 0,
+        items: unique
+      });
+      return { success: true, watchlist: formatWatchlist(watchlist) };
+    } catch (error: unknown) {
+      console.error('Error in createWatchlist:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to create watchlist', error: apiError.message };
+    }
+  },
+
+  /**
+   * Rename a watchlist
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   * @param name New name
+   */
+  renameWatchlist: async (userId: string, watchlistId: string, name: string) => {
+    try {
+      const watchlist = await findWatchlist(userId, watchlistId);
+      if (!watchlist) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+      if (await Watchlist.exists({ userId, name: name.trim(), _id: { $ne: watchlist._id } })) {
+        return { success: false, message: 'A watchlist with this name already exists' };
+      }
+
+      watchlist.name = name;
+      watchlist.updatedAt = new Date();
+      await watchlist.save();
+      return { success: true, watchlist: formatWatchlist(watchlist) };
+    } catch (error: unknown) {
+      console.error('Error in renameWatchlist:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to rename watchlist', error: apiError.message };
+    }
+  },
+
+  /**
+   * Delete a watchlist
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   */
+  deleteWatchlist: async (userId: string, watchlistId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(watchlistId)) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+      const watchlist = await Watchlist.findOneAndDelete({ _id: watchlistId, userId });
+      if (!watchlist) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+      return { success: true, message: 'Watchlist deleted' };
+    } catch (error: unknown) {
+      console.error('Error in deleteWatchlist:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to delete watchlist', error: apiError.message };
+    }
+  },
+
+  /**
+   * Set the order of the user's watchlists
+   * @param userId User ID
+   * @param watchlistIds Every watchlist ID of the user, in the new order
+   */
+  reorderWatchlists: async (userId: string, watchlistIds: string[]) => {
+    try {
+      const watchlists = await Watchlist.find({ userId }).select('_id');
+      if (!isPermutation(watchlistIds, watchlists.map(watchlist => watchlist._id.toString()))) {
+        return { success: false, message: 'The order must list every watchlist exactly once' };
+      }
+
+      await Watchlist.bulkWrite(watchlistIds.map((id, position) => ({
+        updateOne: { filter: { _id: id, userId }, update: { position } }
+      })));
+      return watchlistService.listWatchlists(userId);
+    } catch (error: unknown) {
+      console.error('Error in reorderWatchlists:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to reorder watchlists', error: apiError.message };
+    }
+  },
+
+  /**
+   * Add an asset to the end of a watchlist
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   * @param item Asset to add
+   */
+  addItem: async (userId: string, watchlistId: string, item: WatchlistItemInput) => {
+    try {
+      const watchlist = await findWatchlist(userId, watchlistId);
+      if (!watchlist) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+      if (watchlist.items.some(existing => existing.assetId === item.assetId && existing.source === item.source)) {
+        return { success: false, message: 'This asset is already in the watchlist' };
+      }
+      if (watchlist.items.length >= MAX_ITEMS_PER_WATCHLIST) {
+        return { success: false, message: `A watchlist can hold at most ${MAX_ITEMS_PER_WATCHLIST} items` };
+      }
+
+      watchlist.items.push({ assetId: item.assetId, source: item.source });
+      watchlist.updatedAt = new Date();
+      await watchlist.save();
+      return { success: true, watchlist: formatWatchlist(watchlist) };
+    } catch (error: unknown) {
+      console.error('Error in addItem:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to add item', error: apiError.message };
+    }
+  },
+
+  /**
+   * Remove an item from a watchlist
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   * @param itemId Item ID
+   */
+  removeItem: async (userId: string, watchlistId: string, itemId: string) => {
+    try {
+      const watchlist = await findWatchlist(userId, watchlistId);
+      const item = watchlist && mongoose.Types.ObjectId.isValid(itemId) ? watchlist.items.id(itemId) : null;
+      if (!watchlist || !item) {
+        return { success: false, message: 'Watchlist item not found' };
+      }
+
+      item.deleteOne();
+      watchlist.updatedAt = new Date();
+      await watchlist.save();
+      return { success: true, watchlist: formatWatchlist(watchlist) };
+    } catch (error: unknown) {
+      console.error('Error in removeItem:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to remove item', error: apiError.message };
+    }
+  },
+
+  /**
+   * Set the order of a watchlist's items
+   * @param userId User ID
+   * @param watchlistId Watchlist ID
+   * @param itemIds Every item ID of the list, in the new order
+   */
+  reorderItems: async (userId: string, watchlistId: string, itemIds: string[]) => {
+    try {
+      const watchlist = await findWatchlist(userId, watchlistId);
+      if (!watchlist) {
+        return { success: false, message: 'Watchlist not found' };
+      }
+      if (!isPermutation(itemIds, watchlist.items.map(item => item._id.toString()))) {
+        return { success: false, message: 'The order must list every item exactly once' };
+      }
+
+      const items = itemIds.map(id => watchlist.items.id(id)!.toObject());
+      watchlist.set('items', items);
+      watchlist.updatedAt = new Date();
+      await watchlist.save();
+      return { success: true, watchlist: formatWatchlist(watchlist) };
+    } catch (error: unknown) {
+      console.error('Error in reorderItems:', error);
+      const apiError = error as ApiError;
+      return { success: false, message: 'Failed to reorder items', error: apiError.message };
+    }
+  }
+};